@@ -1,7 +1,9 @@
-const { app, BrowserWindow, ipcMain, dialog, protocol, Menu } = require('electron');
+const { app, BrowserWindow, ipcMain, dialog, protocol, net, Menu } = require('electron');
 const path = require('path');
 const { pathToFileURL } = require('url');
 const { spawn } = require('child_process');
+const http = require('http');
+const crypto = require('crypto');
 // More reliable isDev detection
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 const fs = require('fs');
@@ -34,6 +36,14 @@ if (!isDev) {
 let mainWindow;
 let docsWindow;
 
+// The packaged page is served from app://glassplay rather than file://, so its requests carry a real
+// origin the media server can allow. file:// pages send Origin: null, like any sandboxed iframe on the web
+const APP_SCHEME = 'app';
+const APP_HOST = 'glassplay';
+protocol.registerSchemesAsPrivileged([
+  { scheme: APP_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true, corsEnabled: true, stream: true } }
+]);
+
 // Ensure single instance of the app
 const gotTheLock = app.requestSingleInstanceLock();
 
@@ -80,6 +90,9 @@ process.on('unhandledRejection', (reason, promise) => {
   app.quit();
 });
 
+// Secret for this launch only: the media server rejects requests without it, and only our window gets it
+const mediaServerToken = crypto.randomBytes(32).toString('hex');
+
 // Function to start the Express server
 function startServer() {
   return new Promise(async (resolve, reject) => {
@@ -93,6 +106,7 @@ function startServer() {
       // Set environment variables
       process.env.PORT = '4000';
       process.env.NODE_ENV = isDev ? 'development' : 'production';
+      process.env.MEDIA_SERVER_TOKEN = mediaServerToken;
 
       if (isDev) {
         // In development, load the server (supports both CJS & ESM)
@@ -196,6 +210,19 @@ async function createWindow() {
       }
     });
 
+    // Serve the built app for app://glassplay, refusing anything outside dist/
+    if (!isDev && !protocol.isProtocolHandled(APP_SCHEME)) {
+      const distDir = path.join(__dirname, '..', 'dist');
+      protocol.handle(APP_SCHEME, (request) => {
+        const { host, pathname } = new URL(request.url);
+        const filePath = path.join(distDir, decodeURIComponent(pathname));
+        if (host !== APP_HOST || !filePath.startsWith(distDir + path.sep)) {
+          return new Response('Not found', { status: 404 });
+        }
+        return net.fetch(pathToFileURL(filePath).toString());
+      });
+    }
+
     // Check if window already exists
     if (mainWindow) {
       console.log('Window already exists, focusing it');
@@ -265,7 +292,7 @@ async function createWindow() {
       // Only open DevTools when explicitly needed for debugging
       // mainWindow.webContents.openDevTools();
     } else {
-      mainWindow.loadFile(path.join(__dirname, '..', 'dist', 'index.html'));
+      mainWindow.loadURL(`${APP_SCHEME}://${APP_HOST}/index.html`);
     }
 
     mainWindow.on('closed', () => {
@@ -277,7 +304,8 @@ async function createWindow() {
       console.log('dialog:openFile handler called');
       try {
         const { canceled, filePaths } = await dialog.showOpenDialog({
-          properties: ['openFile'],
+          // Several videos and folders at once, opened as a play queue
+          properties: ['openFile', 'openDirectory', 'multiSelections'],
           filters: [
             { name: 'Videos', extensions: ['mp4', 'webm', 'ogg', 'mov', 'avi', 'mkv'] }
           ]
@@ -289,13 +317,68 @@ async function createWindow() {
           return null;
         }
 
-        return filePaths[0];
+        // The user picked them, so the media server may open them (and whatever is inside the folders)
+        filePaths.forEach(filePath => process.emit('media-server:grant-path', filePath));
+        return filePaths;
       } catch (error) {
         console.error('Error in dialog:openFile handler:', error);
         throw error;
       }
     });
 
+    // Save a file produced by the media server (e.g. an exported clip) or bytes from the renderer
+    // (e.g. a screenshot) where the user chooses
+    ipcMain.handle('dialog:saveFile', async (event, { url, data, defaultName }) => {
+      console.log('dialog:saveFile handler called:', url || defaultName);
+      // Only files served by the local media server can be saved by url
+      if (!data && (!url || !url.startsWith('http://localhost:4000/media/'))) {
+        throw new Error('Only media server files can be saved');
+      }
+
+      const extension = path.extname(defaultName || url).slice(1);
+      const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: defaultName,
+        filters: extension ? [{ name: extension.toUpperCase(), extensions: [extension] }] : []
+      });
+      if (canceled || !filePath) {
+        return null;
+      }
+
+      if (data) {
+        await fs.promises.writeFile(filePath, Buffer.from(data));
+        console.log('Saved file to:', filePath);
+        return filePath;
+      }
+
+      await new Promise((resolve, reject) => {
+        http.get(url, (res) => {
+          if (res.statusCode !== 200) {
+            res.resume();
+            return reject(new Error(`Download failed with status ${res.statusCode}`));
+          }
+          const file = fs.createWriteStream(filePath);
+          res.pipe(file);
+          file.on('finish', resolve);
+          file.on('error', reject);
+        }).on('error', reject);
+      });
+
+      console.log('Saved file to:', filePath);
+      return filePath;
+    });
+
+    // The preload asks for the media server token and for access to files the user picked or dropped.
+    // Other windows (e.g. the manual) get neither
+    ipcMain.on('media-server:token', (event) => {
+      event.returnValue = event.sender === mainWindow?.webContents ? mediaServerToken : null;
+    });
+
+    ipcMain.on('media-server:grant-path', (event, filePath) => {
+      const allowed = event.sender === mainWindow?.webContents && typeof filePath === 'string' && path.isAbsolute(filePath);
+      if (allowed) process.emit('media-server:grant-path', filePath);
+      event.returnValue = allowed;
+    });
+
     ipcMain.on('toggle-fullscreen', () => {
       if (mainWindow) {
         mainWindow.setFullScreen(!mainWindow.isFullScreen());
@@ -454,7 +537,17 @@ function createDocsWindow() {
   });
 }
 
-// Function to clean up original files but keep ambient files
+// Derived files cleanupOriginalFiles keeps, matched by how the media server names them: ambient
+// renditions, exported clips, extracted subtitles, thumbnail sheets and analyses. Registries and
+// settings live in server/data, outside outputs/
+const KEPT_OUTPUT_MARKERS = ['-ambient', '-clip-'];
+const KEPT_OUTPUT_SUFFIXES = ['.vtt', '-thumbs', '-loudness.json', '-waveform.json', '-scenes.json', '.gitkeep'];
+
+const isKeptOutput = (file) =>
+  KEPT_OUTPUT_MARKERS.some(marker => file.includes(marker)) || KEPT_OUTPUT_SUFFIXES.some(suffix => file.endsWith(suffix));
+
+// Function to clean up uploaded originals and renditions but keep derived files.
+// Files opened through the desktop app are streamed in place and never copied here.
 function cleanupOriginalFiles() {
   try {
     const outputsDir = isDev
@@ -465,14 +558,14 @@ function cleanupOriginalFiles() {
 
     const files = fs.readdirSync(outputsDir);
 
-    // Keep ambient files, delete originals
     files.forEach(file => {
       const filePath = path.join(outputsDir, file);
-      // Only delete non-ambient files (originals)
-      if (!file.includes('-ambient') && !file.endsWith('.gitkeep')) {
+      // Only delete non-derived files (originals)
+      if (!isKeptOutput(file)) {
         try {
           console.log(`Cleaning up original file: ${filePath}`);
-          fs.unlinkSync(filePath);
+          // HLS streams are directories of segments
+          fs.rmSync(filePath, { recursive: true, force: true });
         } catch (err) {
           console.error(`Failed to delete file ${filePath}:`, err);
         }
@@ -1,4 +1,4 @@
-const { contextBridge, ipcRenderer } = require('electron');
+const { contextBridge, ipcRenderer, webUtils } = require('electron');
 
 console.log('Preload script loaded');
 
@@ -17,7 +17,7 @@ contextBridge.exposeInMainWorld(
     invoke: async (channel, data) => {
       console.log(`invoke called with channel: ${channel}`);
       // whitelist channels
-      const validChannels = ['dialog:openFile', 'file-request', 'handle-file-drop'];
+      const validChannels = ['dialog:openFile', 'dialog:saveFile', 'file-request', 'handle-file-drop'];
       if (validChannels.includes(channel)) {
         try {
           const result = await ipcRenderer.invoke(channel, data);
@@ -37,6 +37,20 @@ contextBridge.exposeInMainWorld(
         // Deliberately strip event as it includes `sender` 
         ipcRenderer.on(channel, (event, ...args) => func(...args));
       }
+    },
+    // Per-launch secret the media server expects in the X-Media-Token header
+    mediaServerToken: ipcRenderer.sendSync('media-server:token'),
+    // Resolve the on-disk path of a picked/dropped File so the server can stream it in place.
+    // Only a real File can be resolved, so this is also what allows the server to open that path
+    getPathForFile: (file) => {
+      try {
+        const filePath = webUtils.getPathForFile(file) || null;
+        if (filePath) ipcRenderer.sendSync('media-server:grant-path', filePath);
+        return filePath;
+      } catch (error) {
+        console.error('Failed to resolve file path:', error);
+        return null;
+      }
     }
   }
 );
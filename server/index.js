@@ -6,7 +6,9 @@ import fs from 'fs';
 import ffmpeg from 'fluent-ffmpeg';
 import ffmpegPath from 'ffmpeg-static';
 import { v4 as uuidv4 } from 'uuid';
-// import { createHash } from 'crypto';
+import { createHash, timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import { execFile } from 'child_process';
 
 import { fileURLToPath } from 'url';
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -49,533 +51,2762 @@ if (isProduction) {
   ffmpeg.setFfmpegPath(ffmpegPath);
 }
 
-// In-memory job store (reset when server restarts)
-const jobs = new Map();
 const originalsForCleanup = new Set();
 
-// Cleanup handler removes originals when process exits
+// Registered playback sources: id -> { id, path, name, size, cacheKey }. Local files are streamed in place
+const sources = new Map();
+const sourceIdsByPath = new Map();
+
+// Cleanup handler removes originals and stops running ffmpeg processes when process exits
 const cleanup = () => {
   originalsForCleanup.forEach(p => {
     try { fs.unlinkSync(p); } catch {}
   });
+  jobProcesses.forEach(({ command }) => {
+    try { command.kill('SIGKILL'); } catch {}
+  });
+  saveJobs();
+  if (manifestSaveTimer) saveManifest();
   process.exit(0);
 };
 ['SIGINT','SIGTERM','SIGQUIT'].forEach(sig=>process.once(sig,cleanup));
 process.once('exit', cleanup);
 
-// Create necessary directories if they do not exist
-const ensureDir = (dir) => {
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-};
+// Create necessary directories if they do not exist
+const ensureDir = (dir) => {
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+};
+
+const uploadsDir = path.join(basePath, 'uploads');
+const outputsDir = path.join(basePath, 'outputs');
+// Registries and settings. Not in outputs/, which /media serves without the token: the job registry
+// and the manifest hold the ids /stream and /media answer to
+const dataDir = path.join(basePath, 'data');
+
+ensureDir(uploadsDir);
+ensureDir(outputsDir);
+ensureDir(dataDir);
+['manifest.json', 'jobs.json', 'encoders.json', 'settings.json'].forEach(migrateDataFile);
+
+// Cache manifest: content fingerprint -> { name, size, assets: { kind: filename }, lastAccessedAt }.
+// Derived files are named after the fingerprint, so same-named files never share a cache entry
+const manifestPath = path.join(dataDir, 'manifest.json');
+const cacheManifest = loadManifest();
+let manifestSaveTimer = null;
+
+// Derived assets are evicted least-recently-used first once they exceed this many bytes.
+// CACHE_MAX_BYTES sets the default; PATCH /cache stores an override in the manifest
+const DEFAULT_CACHE_MAX_BYTES = parseInt(process.env.CACHE_MAX_BYTES, 10) || 10 * 1024 * 1024 * 1024;
+
+// Bytes hashed at the start, middle and end of a file for its fingerprint
+const FINGERPRINT_CHUNK_SIZE = 1024 * 1024;
+
+// Statuses after which a job never changes again (loadJobs needs them, so they come before the registry)
+const FINISHED_JOB_STATUSES = ['completed', 'failed', 'cancelled'];
+
+// Job registry, persisted to data/jobs.json so history survives restarts.
+// Running ffmpeg commands can't be serialized, so their handles live in jobProcesses.
+const jobsPath = path.join(dataDir, 'jobs.json');
+const jobs = loadJobs();
+const jobProcesses = new Map();
+let jobsSaveTimer = null;
+
+// Job updates are broadcast here (event name = job id) for the /jobs/:id/events streams
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Processing queue: at most MAX_CONCURRENT_JOBS ffmpeg jobs run at once, the rest wait in
+// jobQueue ({ jobId, start, abort, playback }) ordered by priority, then by arrival. Playback jobs
+// (HLS streams, audio renditions) of the watched source block the player, so they skip the queue and
+// run outside the limit, tracked in playbackJobIds; background work never holds them up
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_JOBS, 10) || 2);
+const JOB_PRIORITIES = ['high', 'normal'];
+const jobQueue = [];
+const activeJobIds = new Set();
+const playbackJobIds = new Set();
+let watchedSourceId = null;
+
+// H.264 encoders for ambient renditions, fastest first. Which of them work on this machine is
+// probed once (detectEncoders) and cached in data/encoders.json together with the user's override
+const H264_ENCODERS = [
+  { name: 'h264_amf', label: 'AMD AMF', options: ['-quality', 'speed', '-cq', '23'] },
+  { name: 'h264_nvenc', label: 'NVIDIA NVENC', options: ['-preset', 'p4', '-cq', '23'] },
+  { name: 'h264_qsv', label: 'Intel Quick Sync', options: ['-preset', 'fast', '-q', '23'] },
+  { name: 'libx264', label: 'x264 (software)', options: ['-preset', 'fast', '-crf', '23'] },
+];
+// A test encode that takes longer than this counts as a failure (hung driver initialisation)
+const ENCODER_TEST_TIMEOUT = 20 * 1000;
+const encodersPath = path.join(dataDir, 'encoders.json');
+// { binary, probedAt, encoders: [{ name, listed, working, error }], override }
+const encoderCapabilities = loadEncoderCapabilities();
+let encoderProbe = null;
+let encoderProbeRunning = false;
+
+// Named ambient renditions. height is the output height, fps caps the frame rate (null keeps the source's),
+// blur and saturation are baked into the video (0 and 1 leave it untouched), and codec picks between the
+// probed H.264 encoders and VP9. Each profile is cached separately, so switching renders a new one
+const AMBIENT_PROFILES = {
+  standard: { label: 'Standard', description: '144p, full frame rate', height: 144, fps: null, blur: 0, saturation: 1, codec: 'h264' },
+  detailed: { label: 'Detailed', description: '240p for large screens', height: 240, fps: null, blur: 0, saturation: 1, codec: 'h264' },
+  soft: { label: 'Soft', description: '144p at 30 fps, pre-blurred and more saturated', height: 144, fps: 30, blur: 10, saturation: 1.4, codec: 'h264' },
+  light: { label: 'Light', description: '96p at 15 fps in VP9, smallest files', height: 96, fps: 15, blur: 6, saturation: 1.2, codec: 'vp9' },
+};
+const DEFAULT_AMBIENT_PROFILE = 'standard';
+const VP9_AMBIENT_ENCODER = { name: 'libvpx-vp9', label: 'VP9 (software)', options: ['-crf', '40', '-b:v', '0', '-deadline', 'realtime', '-cpu-used', '8'] };
+
+// User settings that outlive the session: { ambientProfile }
+const settingsPath = path.join(dataDir, 'settings.json');
+const settings = loadSettings();
+
+// Finished jobs beyond this many are pruned from the registry
+const MAX_JOB_HISTORY = 200;
+
+// Uploads larger than this are refused while they stream in. MAX_UPLOAD_BYTES sets it (default 20 GB)
+const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES, 10) || 20 * 1024 * 1024 * 1024;
+const upload = multer({ dest: uploadsDir, limits: { fileSize: MAX_UPLOAD_BYTES } });
+
+// Resumable uploads for the browser build: POST /uploads creates one, chunks are PATCHed at the current
+// offset and HEAD tells a client where to resume. id -> { id, fileName, size, chunkSize, offset, createdAt, writing }.
+// Bytes go to <id>.part next to the record in <id>.json, so uploads survive a restart until they expire
+const resumableUploadsDir = path.join(uploadsDir, 'resumable');
+ensureDir(resumableUploadsDir);
+const MIN_UPLOAD_CHUNK_BYTES = 256 * 1024;
+const MAX_UPLOAD_CHUNK_BYTES = 64 * 1024 * 1024;
+const RESUMABLE_UPLOAD_TTL = 24 * 60 * 60 * 1000;
+const resumableUploads = loadResumableUploads();
+
+// ffprobe errors that mean the file is a damaged video rather than not a video at all
+const CORRUPT_MEDIA_PATTERNS = [/moov atom not found/i, /EBML header parsing failed/i, /truncat/i, /invalid (?:atom|box) size/i];
+
+// Subtitle codecs ffmpeg can convert to WebVTT (bitmap formats like PGS need OCR)
+const TEXT_SUBTITLE_CODECS = ['subrip', 'ass', 'ssa', 'mov_text', 'webvtt', 'text'];
+
+// Audio codecs that can be stream-copied into an MP4 rendition and played by Chromium
+const MP4_AUDIO_CODECS = ['aac', 'mp3', 'opus', 'flac'];
+
+// Running audio rendition jobs keyed by output path, so repeated requests reuse one job
+const audioRenditionJobs = new Map();
+
+// Clip export formats. MP4/WebM keep the source resolution; GIF (with a generated palette) and
+// animated WebP are scaled to CLIP_IMAGE_WIDTH at CLIP_IMAGE_FPS and capped at MAX_IMAGE_CLIP_LENGTH seconds
+const CLIP_FORMATS = ['mp4', 'webm', 'gif', 'webp'];
+const CLIP_IMAGE_WIDTH = 480;
+const CLIP_IMAGE_FPS = 12;
+const MAX_IMAGE_CLIP_LENGTH = 30;
+// A clip is stream-copied when a keyframe lies within this many seconds of its start
+const KEYFRAME_TOLERANCE = 0.05;
+// Video codecs the MP4 muxer can hold and Chromium plays from MP4. VP8 has no MP4 mapping
+const MP4_VIDEO_CODECS = ['h264', 'vp9', 'av1'];
+
+// Running clip exports keyed by output path
+const clipJobs = new Map();
+
+// Image formats for single-frame grabs, mapped to their ffmpeg encoder
+const FRAME_ENCODERS = { png: 'png', jpeg: 'mjpeg' };
+
+// Codecs Chromium/Electron decode natively; anything else is served through HLS
+const BROWSER_VIDEO_CODECS = ['h264', 'vp8', 'vp9', 'av1'];
+const BROWSER_AUDIO_CODECS = ['aac', 'mp3', 'opus', 'vorbis', 'flac'];
+const WEBM_VIDEO_CODECS = ['vp8', 'vp9', 'av1'];
+const WEBM_AUDIO_CODECS = ['opus', 'vorbis'];
+// Audio codecs that can be stream-copied into MPEG-TS segments
+const HLS_AUDIO_CODECS = ['aac', 'mp3'];
+
+// Running HLS jobs ({ jobId, firstSegment }) keyed by output directory; firstSegment resolves once the
+// stream is playable
+const hlsJobs = new Map();
+
+// Pending WebVTT conversions keyed by output path, so concurrent requests share one ffmpeg run
+const subtitleConversions = new Map();
+
+// Seek-preview sprite sheets: tiles of THUMBNAIL_WIDTH x THUMBNAIL_HEIGHT, THUMBNAIL_COLUMNS x THUMBNAIL_ROWS per sheet.
+// Long videos are sampled less often so a source never needs more than MAX_THUMBNAILS tiles
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 90;
+const THUMBNAIL_COLUMNS = 10;
+const THUMBNAIL_ROWS = 10;
+const MAX_THUMBNAILS = 300;
+
+// Running thumbnail jobs keyed by output directory, so repeated requests reuse one job
+const thumbnailJobs = new Map();
+
+// Running EBU R128 loudness analyses keyed by output path
+const loudnessJobs = new Map();
+
+// Waveform envelopes: the first audio stream is decoded to mono WAVEFORM_SAMPLE_RATE PCM and reduced
+// to WAVEFORM_BUCKETS peak/RMS pairs, enough detail for a progress bar at any width
+const WAVEFORM_SAMPLE_RATE = 8000;
+const WAVEFORM_BUCKETS = 1000;
+
+// Running waveform jobs keyed by output path
+const waveformJobs = new Map();
+
+// Scene detection: frames whose scene score (0-1 difference from the previous frame) exceeds
+// SCENE_THRESHOLD start a new scene, unless the current one is shorter than MIN_SCENE_LENGTH seconds
+const SCENE_THRESHOLD = 0.4;
+const MIN_SCENE_LENGTH = 5;
+
+// Running scene detection jobs keyed by output path
+const sceneJobs = new Map();
+
+// Container signatures used to pick a Content-Type for streamed files, checked before the extension
+const CONTAINER_SIGNATURES = [
+  { type: 'video/mp4', test: (b) => b.toString('latin1', 4, 8) === 'ftyp' },
+  { type: 'video/webm', test: (b) => b.readUInt32BE(0) === 0x1A45DFA3 && b.includes('webm') },
+  { type: 'video/x-matroska', test: (b) => b.readUInt32BE(0) === 0x1A45DFA3 },
+  { type: 'video/x-msvideo', test: (b) => b.toString('latin1', 0, 4) === 'RIFF' && b.toString('latin1', 8, 11) === 'AVI' },
+  { type: 'video/ogg', test: (b) => b.toString('latin1', 0, 4) === 'OggS' },
+  { type: 'video/mp2t', test: (b) => b[0] === 0x47 && b[188] === 0x47 },
+];
+
+const VIDEO_CONTENT_TYPES = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.ogg': 'video/ogg',
+  '.ogv': 'video/ogg',
+  '.ts': 'video/mp2t',
+};
+
+// Per-launch secret the Electron main process generates and hands to the renderer through the preload.
+// Every request must carry it (X-Media-Token header, or ?token= where headers can't be set, e.g. EventSource)
+// except media element loads, which are only reachable by unguessable ids. Unset for a standalone server
+const MEDIA_SERVER_TOKEN = process.env.MEDIA_SERVER_TOKEN || null;
+const TOKEN_EXEMPT_PATHS = ['/media/', '/stream/', '/subtitles/'];
+
+// Pages allowed to call the server: the Vite dev server, plus the packaged app's page in Electron, which
+// electron/main.cjs serves from app://glassplay. Never "null": every sandboxed iframe on the web sends that
+const ALLOWED_ORIGINS = new Set([
+  ...(process.env.MEDIA_SERVER_ORIGINS || 'http://localhost:5173,http://127.0.0.1:5173').split(',').map(origin => origin.trim()),
+  ...(isElectron ? ['app://glassplay'] : []),
+]);
+
+// Local files the user picked in the Electron app, the only ones /video/upload-electron may open.
+// The main process grants them in-process, so nothing reachable over http can add to this list
+const grantedFilePaths = new Set();
+process.on('media-server:grant-path', filePath => {
+  grantedFilePaths.add(path.resolve(filePath));
+});
+
+// Most videos a single batch request takes in, after folders are expanded
+const MAX_BATCH_FILES = 200;
+
+const app = express();
+// Refuse requests from any other page outright, before CORS would only hide the response from it
+app.use((req, res, next) => {
+  const origin = req.get('Origin');
+  if (origin && !ALLOWED_ORIGINS.has(origin)) {
+    console.warn(`[security] Rejected ${req.method} ${req.path} from origin ${origin}`);
+    return res.status(403).json({ error: 'Origin not allowed' });
+  }
+  next();
+});
+app.use(cors({
+  origin: (origin, callback) => callback(null, !!origin && ALLOWED_ORIGINS.has(origin)),
+  // Resumable upload clients read where to continue from
+  exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length'],
+}));
+app.use((req, res, next) => {
+  if (!MEDIA_SERVER_TOKEN || req.method === 'OPTIONS') return next();
+  if (['GET', 'HEAD'].includes(req.method) && TOKEN_EXEMPT_PATHS.some(prefix => req.path.startsWith(prefix))) return next();
+  if (!isValidToken(req.get('X-Media-Token') || req.query.token)) {
+    return res.status(401).json({ error: 'Missing or invalid media server token' });
+  }
+  next();
+});
+app.use(express.json());  // For parsing application/json
+app.use(express.urlencoded({ extended: true }));  // For parsing application/x-www-form-urlencoded
+// Serving a derived file counts as a cache hit for its entry
+app.use('/media', (req, res, next) => {
+  touchCacheEntry(req.path.split('/')[1]?.slice(0, 24));
+  next();
+}, express.static(outputsDir));
+
+/**
+ * Errors of the upload, ingest and batch endpoints share one shape:
+ * { error: <human readable message>, code: <machine readable code>, details?: { ... } }
+ * Codes: NO_FILE, INVALID_UPLOAD, FILE_TOO_LARGE, TOO_MANY_FILES, FILE_NOT_PICKED, FILE_NOT_FOUND,
+ * NO_VIDEOS_FOUND, INVALID_URL, URL_UNREADABLE, NOT_MEDIA, CORRUPT_FILE, NO_VIDEO_STREAM, ZERO_DURATION,
+ * PROCESSING_FAILED, and for resumable uploads UPLOAD_NOT_FOUND, OFFSET_MISMATCH, UPLOAD_INCOMPLETE,
+ * CHECKSUM_MISMATCH
+ */
+
+/**
+ * POST /api/upload
+ * Accepts multipart/form-data with "video" field, up to MAX_UPLOAD_BYTES.
+ * 1. Stores the original video in uploads/
+ * 2. Uses ffprobe to gather audio/subtitle track metadata and codec info, rejecting files
+ *    that aren't videos, are damaged or have no duration (422)
+ * 3. Starts an HLS stream (remux or transcode) when the browser cannot play the original
+ * 4. Spawns ffmpeg to downscale to 240p (keeping FPS) – saved in outputs/
+ * 5. Responds with JSON containing URLs for original & ambient, plus track and chapter info
+ */
+app.post('/video/upload-local', upload.single('video'), async (req, res) => {
+  if (!req.file) {
+    return sendError(res, 400, 'NO_FILE', 'No video file provided');
+  }
+
+  const useFfmpeg = req.query.useFfmpeg !== 'false'; // default true
+  const detectScenes = req.query.detectScenes === 'true'; // default false
+  const ambientProfile = req.query.ambientProfile;
+
+  let source;
+  try {
+    source = await registerUpload(req.file);
+  } catch (err) {
+    console.error('Failed to store upload:', err);
+    fs.rmSync(req.file.path, { force: true });
+    return sendError(res, 500, 'PROCESSING_FAILED', 'Failed to store the upload: ' + err.message);
+  }
+  await respondWithUpload(res, source, { useFfmpeg, detectScenes, ambientProfile });
+});
+
+/**
+ * POST /uploads
+ * Body: { fileName, size, chunkSize }
+ * Starts a resumable upload, for files too large to send in one request. Chunks are then sent with
+ * PATCH /uploads/:id, and POST /uploads/:id/complete turns the finished upload into a video like
+ * /video/upload-local. Responds 201 with { id, url, offset } and the upload url in Location.
+ */
+app.post('/uploads', (req, res) => {
+  const { fileName, size, chunkSize } = req.body || {};
+  if (typeof fileName !== 'string' || !fileName || !Number.isSafeInteger(size) || size <= 0) {
+    return sendError(res, 400, 'INVALID_UPLOAD', 'fileName and a positive size are required');
+  }
+  if (!Number.isSafeInteger(chunkSize) || chunkSize < MIN_UPLOAD_CHUNK_BYTES || chunkSize > MAX_UPLOAD_CHUNK_BYTES) {
+    return sendError(res, 400, 'INVALID_UPLOAD', `chunkSize must be between ${MIN_UPLOAD_CHUNK_BYTES} and ${MAX_UPLOAD_CHUNK_BYTES} bytes`);
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    return sendError(res, 413, 'FILE_TOO_LARGE', `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`, { maxBytes: MAX_UPLOAD_BYTES });
+  }
+
+  const upload = { id: uuidv4(), fileName: path.basename(fileName), size, chunkSize, offset: 0, createdAt: new Date().toISOString() };
+  fs.writeFileSync(resumableUploadPath(upload, 'part'), '');
+  resumableUploads.set(upload.id, upload);
+  saveResumableUpload(upload);
+
+  const url = `/uploads/${upload.id}`;
+  res.status(201).set('Location', url).json({ id: upload.id, url, offset: 0 });
+});
+
+/**
+ * HEAD /uploads/:id
+ * Where to resume: the bytes received so far in Upload-Offset and the file size in Upload-Length.
+ */
+app.head('/uploads/:id', (req, res) => {
+  const upload = resumableUploads.get(req.params.id);
+  res.set('Cache-Control', 'no-store');
+  if (!upload) return res.status(404).end();
+  res.set({ 'Upload-Offset': String(upload.offset), 'Upload-Length': String(upload.size) }).status(200).end();
+});
+
+/**
+ * PATCH /uploads/:id
+ * Appends one chunk, sent as application/offset+octet-stream with the current offset in Upload-Offset
+ * and its SHA-256 in Upload-Checksum ("sha256 <base64 digest>"). Every chunk is exactly chunkSize bytes
+ * except the last. A chunk whose checksum doesn't match is dropped (460), one at the wrong offset is
+ * refused with the actual offset (409). Responds 204 with the new Upload-Offset.
+ */
+app.patch('/uploads/:id', express.raw({ type: 'application/offset+octet-stream', limit: MAX_UPLOAD_CHUNK_BYTES }), async (req, res) => {
+  const upload = resumableUploads.get(req.params.id);
+  if (!upload) return sendError(res, 404, 'UPLOAD_NOT_FOUND', 'Unknown or expired upload');
+  if (!Buffer.isBuffer(req.body)) {
+    return sendError(res, 415, 'INVALID_UPLOAD', 'Chunks must be sent as application/offset+octet-stream');
+  }
+
+  // A second request for the same offset while the first is still writing is refused the same way
+  const offset = Number(req.get('Upload-Offset'));
+  if (offset !== upload.offset || upload.writing) {
+    return sendError(res, 409, 'OFFSET_MISMATCH', `The upload is at offset ${upload.offset}`, { offset: upload.offset });
+  }
+  const expectedLength = Math.min(upload.chunkSize, upload.size - offset);
+  if (req.body.length !== expectedLength) {
+    return sendError(res, 400, 'INVALID_UPLOAD', `Expected a chunk of ${expectedLength} bytes`);
+  }
+  const [algorithm, checksum] = (req.get('Upload-Checksum') || '').split(' ');
+  if (algorithm !== 'sha256' || !checksum) {
+    return sendError(res, 400, 'INVALID_UPLOAD', 'Upload-Checksum must be "sha256 <base64 digest>"');
+  }
+  if (createHash('sha256').update(req.body).digest('base64') !== checksum) {
+    return sendError(res, 460, 'CHECKSUM_MISMATCH', 'The chunk was corrupted in transit');
+  }
+
+  upload.writing = true;
+  try {
+    await fs.promises.appendFile(resumableUploadPath(upload, 'part'), req.body);
+    upload.offset += req.body.length;
+    saveResumableUpload(upload);
+  } finally {
+    upload.writing = false;
+  }
+  res.set('Upload-Offset', String(upload.offset)).status(204).end();
+});
+
+/**
+ * POST /uploads/:id/complete
+ * Body: { digest, useFfmpeg, detectScenes, ambientProfile }
+ * Finishes a fully sent upload. digest is the hex SHA-256 of the concatenated SHA-256 digests of every
+ * chunk; it is recomputed from the stored file, and on a mismatch the upload is discarded (422).
+ * Responds with the same shape as /video/upload-local.
+ */
+app.post('/uploads/:id/complete', async (req, res) => {
+  const upload = resumableUploads.get(req.params.id);
+  if (!upload) return sendError(res, 404, 'UPLOAD_NOT_FOUND', 'Unknown or expired upload');
+  if (upload.offset !== upload.size || upload.writing) {
+    return sendError(res, 409, 'UPLOAD_INCOMPLETE', `${upload.offset} of ${upload.size} bytes received`, { offset: upload.offset });
+  }
+
+  const partPath = resumableUploadPath(upload, 'part');
+  let source;
+  try {
+    const digest = await digestUploadChunks(partPath, upload.chunkSize);
+    if (digest !== req.body?.digest) {
+      console.error(`[upload] Integrity check failed for ${upload.fileName}`);
+      removeResumableUpload(upload);
+      return sendError(res, 422, 'CHECKSUM_MISMATCH', 'The uploaded file does not match the original');
+    }
+
+    // From here on it is an ordinary upload; registerUpload moves the bytes into the cache
+    resumableUploads.delete(upload.id);
+    fs.rmSync(resumableUploadPath(upload, 'json'), { force: true });
+    source = await registerUpload({ path: partPath, originalname: upload.fileName });
+  } catch (err) {
+    console.error(`[upload] Failed to finish ${upload.fileName}:`, err);
+    removeResumableUpload(upload);
+    return sendError(res, 500, 'PROCESSING_FAILED', 'Failed to finish the upload: ' + err.message);
+  }
+  await respondWithUpload(res, source, {
+    useFfmpeg: req.body?.useFfmpeg !== false, // default to true
+    detectScenes: req.body?.detectScenes === true, // default to false
+    ambientProfile: req.body?.ambientProfile,
+  });
+});
+
+/**
+ * DELETE /uploads/:id
+ * Abandons a resumable upload and deletes what was received.
+ */
+app.delete('/uploads/:id', (req, res) => {
+  const upload = resumableUploads.get(req.params.id);
+  if (!upload) return sendError(res, 404, 'UPLOAD_NOT_FOUND', 'Unknown or expired upload');
+  removeResumableUpload(upload);
+  res.status(204).end();
+});
+
+// Helper function to validate a freshly uploaded source and respond with the playback info, or
+// discard it with the error when ffprobe rejects it
+async function respondWithUpload(res, source, options) {
+  // Probe for track metadata
+  const metadata = await probeSource(source);
+  const invalid = validateProbe(metadata);
+  if (invalid) {
+    discardUpload(source);
+    return sendError(res, 422, invalid.code, invalid.message);
+  }
+
+  // The player opens it next, so its stream doesn't queue behind the previous file's work
+  watchSource(source);
+
+  try {
+    res.json(await prepareSource(source, metadata, options));
+  } catch (err) {
+    console.error('[ffmpeg] Failed to prepare HLS stream:', err.message);
+    sendError(res, 500, 'PROCESSING_FAILED', 'Failed to prepare playback: ' + err.message);
+  }
+}
+
+// Helper function to name a resumable upload's data ('part') or record ('json') file
+function resumableUploadPath(upload, extension) {
+  return path.join(resumableUploadsDir, `${upload.id}.${extension}`);
+}
+
+function saveResumableUpload(upload) {
+  const { writing, ...record } = upload;
+  fs.writeFileSync(resumableUploadPath(upload, 'json'), JSON.stringify(record));
+}
+
+function removeResumableUpload(upload) {
+  resumableUploads.delete(upload.id);
+  fs.rmSync(resumableUploadPath(upload, 'part'), { force: true });
+  fs.rmSync(resumableUploadPath(upload, 'json'), { force: true });
+}
+
+// Helper function to pick up unfinished uploads after a restart. Expired ones are deleted, and a chunk
+// that was only partly written when the server stopped is cut off so the client resends it
+function loadResumableUploads() {
+  const uploads = new Map();
+  for (const file of fs.readdirSync(resumableUploadsDir)) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const upload = JSON.parse(fs.readFileSync(path.join(resumableUploadsDir, file), 'utf8'));
+      const partPath = resumableUploadPath(upload, 'part');
+      if (Date.now() - new Date(upload.createdAt).getTime() > RESUMABLE_UPLOAD_TTL || !fs.existsSync(partPath)) {
+        fs.rmSync(partPath, { force: true });
+        fs.rmSync(resumableUploadPath(upload, 'json'), { force: true });
+        continue;
+      }
+      const received = fs.statSync(partPath).size;
+      upload.offset = received === upload.size ? received : received - (received % upload.chunkSize);
+      if (upload.offset !== received) fs.truncateSync(partPath, upload.offset);
+      uploads.set(upload.id, upload);
+    } catch (err) {
+      console.error('[upload] Dropping unreadable upload record', file, err.message);
+      fs.rmSync(path.join(resumableUploadsDir, file), { force: true });
+    }
+  }
+  return uploads;
+}
+
+// Helper function to compute an upload's integrity digest: SHA-256 over the SHA-256 of each chunk,
+// which a browser can produce chunk by chunk without hashing the whole file in one go
+async function digestUploadChunks(filePath, chunkSize) {
+  const handle = await fs.promises.open(filePath, 'r');
+  const digests = [];
+  try {
+    const buffer = Buffer.alloc(chunkSize);
+    let position = 0;
+    for (;;) {
+      const { bytesRead } = await handle.read(buffer, 0, chunkSize, position);
+      if (!bytesRead) break;
+      digests.push(createHash('sha256').update(buffer.subarray(0, bytesRead)).digest());
+      position += bytesRead;
+    }
+  } finally {
+    await handle.close();
+  }
+  return createHash('sha256').update(Buffer.concat(digests)).digest('hex');
+}
+
+// Handle file uploads from Electron
+app.post('/video/upload-electron', async (req, res) => {
+  console.log("Received Electron upload request:", req.body);
+  
+  const filePath = req.body?.filePath;
+  const useFfmpeg = req.body?.useFfmpeg !== false; // default to true
+  const detectScenes = req.body?.detectScenes === true; // default to false
+  const ambientProfile = req.body?.ambientProfile;
+  
+  console.log(`FFmpeg processing: ${useFfmpeg ? 'enabled' : 'disabled'}`);
+  
+  if (!filePath) {
+    console.error("No file path provided");
+    return sendError(res, 400, 'NO_FILE', 'No file path provided');
+  }
+  if (typeof filePath !== 'string' || !isGrantedPath(filePath)) {
+    console.warn(`[security] Rejected file the user did not pick: ${filePath}`);
+    return sendError(res, 403, 'FILE_NOT_PICKED', 'File was not picked in the app');
+  }
+
+  try {
+    // Check if the file exists
+    if (!fs.existsSync(filePath)) {
+      console.error(`File not found: ${filePath}`);
+      return sendError(res, 404, 'FILE_NOT_FOUND', 'File not found');
+    }
+
+    // The file is streamed from where it is via /stream, so nothing is copied
+    const source = await registerSource(path.resolve(filePath), path.basename(filePath));
+    console.log(`Processing file in place: ${source.path} (source ${source.id})`);
+
+    // Extract metadata using FFmpeg
+    const metadata = await probeSource(source);
+    const invalid = validateProbe(metadata);
+    if (invalid) return sendError(res, 422, invalid.code, invalid.message);
+
+    watchSource(source);
+    res.json(await prepareSource(source, metadata, { useFfmpeg, detectScenes, ambientProfile }));
+    
+    console.log(`Successfully processed file: ${filePath}`);
+  } catch (error) {
+    console.error('Error processing file:', error);
+    sendError(res, 500, 'PROCESSING_FAILED', 'Failed to process file: ' + error.message);
+  }
+});
+
+/**
+ * POST /video/ingest-url
+ * Body: { url, useFfmpeg, detectScenes, ambientProfile }
+ * Same as the upload endpoints for a remote http(s) video: ffmpeg reads the url directly, so the
+ * ambient rendition, thumbnails and analyses are generated from the network stream while the
+ * player streams the original (or an HLS stream when the browser cannot play it).
+ * Responds with the same shape as /video/upload-local.
+ */
+app.post('/video/ingest-url', async (req, res) => {
+  const url = req.body?.url;
+  const useFfmpeg = req.body?.useFfmpeg !== false; // default to true
+  const detectScenes = req.body?.detectScenes === true; // default to false
+  const ambientProfile = req.body?.ambientProfile;
+
+  try {
+    if (!['http:', 'https:'].includes(new URL(url).protocol)) throw new Error('Unsupported protocol');
+  } catch {
+    return sendError(res, 400, 'INVALID_URL', 'A valid http(s) url is required');
+  }
+
+  try {
+    const source = registerRemoteSource(url);
+    console.log(`Ingesting remote video: ${url} (source ${source.id})`);
+
+    const metadata = await probeSource(source);
+    if (!metadata.probeData) {
+      return sendError(res, 422, 'URL_UNREADABLE', 'Could not read the video at this url');
+    }
+
+    watchSource(source);
+    res.json(await prepareSource(source, metadata, { useFfmpeg, detectScenes, ambientProfile }));
+  } catch (err) {
+    console.error('Failed to ingest remote video:', err.message);
+    sendError(res, 500, 'PROCESSING_FAILED', 'Failed to ingest video: ' + err.message);
+  }
+});
+
+/**
+ * POST /video/batch-local
+ * Accepts multipart/form-data with up to MAX_BATCH_FILES "videos" fields, same query parameters as
+ * /video/upload-local. Every file is probed and its processing queued, in the order they were sent.
+ * Responds with { items } where each item is { fileName } plus either the /video/upload-local
+ * response or { error, code } for a file that failed validation. HLS streams are not waited for:
+ * an item whose stream is still starting has hlsJobId set, to follow with /jobs/:id/events.
+ */
+app.post('/video/batch-local', upload.array('videos', MAX_BATCH_FILES), async (req, res) => {
+  if (!req.files?.length) {
+    return sendError(res, 400, 'NO_FILE', 'No video files provided');
+  }
+
+  const options = {
+    useFfmpeg: req.query.useFfmpeg !== 'false', // default true
+    detectScenes: req.query.detectScenes === 'true', // default false
+    ambientProfile: req.query.ambientProfile,
+  };
+
+  const items = [];
+  for (const file of req.files) {
+    items.push(await prepareBatchItem(file.originalname, () => registerUpload(file), options, discardUpload));
+  }
+  res.json({ items });
+});
+
+/**
+ * POST /video/batch-electron
+ * Body: { paths, useFfmpeg, detectScenes, ambientProfile }
+ * Like /video/batch-local for files and folders the user picked in Electron, streamed in place.
+ * Folders are searched recursively for videos, sorted by name. Every path must have been granted
+ * by the main process.
+ */
+app.post('/video/batch-electron', async (req, res) => {
+  const paths = req.body?.paths;
+  if (!Array.isArray(paths) || !paths.length || paths.some(p => typeof p !== 'string')) {
+    return sendError(res, 400, 'INVALID_UPLOAD', 'paths must be a non-empty array of file or folder paths');
+  }
+  const refused = paths.find(p => !isGrantedPath(p));
+  if (refused) {
+    console.warn(`[security] Rejected batch path the user did not pick: ${refused}`);
+    return sendError(res, 403, 'FILE_NOT_PICKED', `${path.basename(refused)} was not picked in the app`);
+  }
+
+  const filePaths = [];
+  for (const p of paths) {
+    filePaths.push(...await collectVideoFiles(path.resolve(p)));
+  }
+  if (!filePaths.length) {
+    return sendError(res, 404, 'NO_VIDEOS_FOUND', 'No videos found');
+  }
+  if (filePaths.length > MAX_BATCH_FILES) {
+    return sendError(res, 413, 'TOO_MANY_FILES', `At most ${MAX_BATCH_FILES} videos can be opened at once`, { maxFiles: MAX_BATCH_FILES });
+  }
+
+  const options = {
+    useFfmpeg: req.body?.useFfmpeg !== false, // default to true
+    detectScenes: req.body?.detectScenes === true, // default to false
+    ambientProfile: req.body?.ambientProfile,
+  };
+
+  console.log(`Processing batch of ${filePaths.length} files in place`);
+  const items = [];
+  for (const filePath of filePaths) {
+    items.push(await prepareBatchItem(path.basename(filePath), () => registerSource(filePath, path.basename(filePath)), options));
+  }
+  res.json({ items });
+});
+
+// Helper function to move an uploaded file into the cache under its content fingerprint and register it,
+// so same-named uploads never collide
+async function registerUpload(file) {
+  const tempUploadPath = file.path;
+  const cacheKey = await fingerprintFile(tempUploadPath);
+  const ext = path.extname(file.originalname) || '.mp4';
+  const originalPath = path.join(outputsDir, `${cacheKey}${ext}`);
+
+  // uploads/ and outputs/ share a volume, so moving is a rename rather than a copy of the whole file.
+  // A file already in the cache makes the upload a duplicate to delete
+  if (fs.existsSync(originalPath)) {
+    await fs.promises.unlink(tempUploadPath);
+  } else {
+    await fs.promises.rename(tempUploadPath, originalPath);
+  }
+  originalsForCleanup.add(originalPath);
+
+  return registerSource(originalPath, file.originalname);
+}
+
+// Helper function to register, probe and prepare one file of a batch. Failures are reported
+// per item so one unreadable file doesn't fail the rest; discard cleans up after a rejected file
+async function prepareBatchItem(fileName, register, options, discard) {
+  try {
+    const source = await register();
+    const metadata = await probeSource(source);
+    const invalid = validateProbe(metadata);
+    if (invalid) {
+      discard?.(source);
+      return { fileName, error: invalid.message, code: invalid.code };
+    }
+    // Waiting for each HLS stream would hold the request open for whole transcodes while they queue;
+    // the player follows hlsJobId once it reaches the item
+    return { fileName, ...await prepareSource(source, metadata, { ...options, waitForStream: false }) };
+  } catch (err) {
+    console.error(`[batch] Failed to prepare ${fileName}:`, err.message);
+    return { fileName, error: err.message, code: 'PROCESSING_FAILED' };
+  }
+}
+
+// Helper function to send an error in the upload error schema
+function sendError(res, status, code, message, details) {
+  res.status(status).json({ error: message, code, ...(details && { details }) });
+}
+
+// Helper function to check that ffprobe found a playable video: readable, with a video stream
+// (cover art doesn't count) and a duration. Returns null when it did, otherwise { code, message }
+function validateProbe({ probeData, probeError }) {
+  if (!probeData) {
+    return CORRUPT_MEDIA_PATTERNS.some(pattern => pattern.test(probeError || ''))
+      ? { code: 'CORRUPT_FILE', message: 'The video file is damaged or incomplete' }
+      : { code: 'NOT_MEDIA', message: 'This is not a video file ffmpeg can read' };
+  }
+  if (!probeData.streams?.some(stream => stream.codec_type === 'video' && !stream.disposition?.attached_pic)) {
+    return { code: 'NO_VIDEO_STREAM', message: 'The file contains no video' };
+  }
+  if (!(Number(probeData.format?.duration) > 0)) {
+    return { code: 'ZERO_DURATION', message: 'The video has no duration' };
+  }
+  return null;
+}
+
+// Helper function to drop an upload that failed validation instead of keeping it in the cache
+function discardUpload(source) {
+  sources.delete(source.id);
+  sourceIdsByPath.delete(source.path);
+  originalsForCleanup.delete(source.path);
+  fs.rmSync(source.path, { force: true });
+}
+
+// Helper function to expand a path into the video files it names: itself, or every video below a
+// folder with each folder's entries in natural name order ("ep2" before "ep10")
+async function collectVideoFiles(filePath) {
+  const stat = await fs.promises.stat(filePath).catch(() => null);
+  if (!stat) return [];
+  if (stat.isFile()) return VIDEO_CONTENT_TYPES[path.extname(filePath).toLowerCase()] ? [filePath] : [];
+  if (!stat.isDirectory()) return [];
+
+  const entries = await fs.promises.readdir(filePath);
+  entries.sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+  const files = [];
+  for (const entry of entries) {
+    if (entry.startsWith('.')) continue;
+    files.push(...await collectVideoFiles(path.join(filePath, entry)));
+  }
+  return files;
+}
+
+// Helper function to check a path against the files and folders the user picked in Electron.
+// Anything inside a picked folder counts as picked
+function isGrantedPath(filePath) {
+  const resolved = path.resolve(filePath);
+  if (grantedFilePaths.has(resolved)) return true;
+  for (const granted of grantedFilePaths) {
+    if (resolved.startsWith(granted + path.sep)) return true;
+  }
+  return false;
+}
+
+// Helper function to compare a request's token with the launch secret in constant time
+function isValidToken(token) {
+  if (typeof token !== 'string') return false;
+  const expected = Buffer.from(MEDIA_SERVER_TOKEN);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Helper function to probe a source's tracks; probeData is null when ffprobe could not read it,
+// with ffprobe's error in probeError
+function probeSource(source) {
+  return new Promise((resolve) => {
+    extractMetadata(source, (audioTracks, subtitles, duration, probeData, probeError) => {
+      resolve({ audioTracks, subtitles, probeData, probeError: probeError?.message || null });
+    });
+  });
+}
+
+// Helper function to start everything a newly opened source needs and build the response shared by
+// the upload and ingest endpoints. An unknown or missing ambientProfile falls back to the saved selection.
+// Rejects when an HLS stream is needed but cannot be started. With waitForStream false (batches) it
+// doesn't wait for the stream, and hlsJobId is set while it is still starting
+async function prepareSource(source, { audioTracks, subtitles, probeData }, { useFfmpeg, detectScenes, ambientProfile, waitForStream = true }) {
+  // Fall back to an HLS stream when the browser cannot play the original
+  const playback = await preparePlayback(source, probeData, waitForStream);
+  const { videoUrl } = playback;
+
+  // If FFmpeg is enabled, create ambient version
+  const profileId = AMBIENT_PROFILES[ambientProfile] ? ambientProfile : settings.ambientProfile;
+  const { jobId, ambientFilename, ready } = prepareAmbient(source, videoUrl, useFfmpeg, profileId, probeData?.format?.duration);
+  const thumbnails = prepareThumbnails(source, probeData?.format?.duration);
+  const loudness = prepareLoudness(source, probeData);
+  const waveform = prepareWaveform(source, probeData);
+  const scenes = detectScenes ? prepareScenes(source, probeData) : null;
+
+  return {
+    id: jobId,
+    videoUrl,
+    ambientUrl: ambientFilename ? `/media/${ambientFilename}` : null,
+    ambientProfile: useFfmpeg ? describeAmbientProfile(profileId) : null,
+    ready,
+    playback: playback.mode,
+    hlsJobId: playback.hlsJobId,
+    audioTracks,
+    subtitles,
+    chapters: extractChapters(probeData),
+    thumbnails,
+    loudness,
+    waveform,
+    scenes,
+    frameRate: extractFrameRate(probeData),
+    mediaInfoUrl: `/media-info/${source.id}`,
+    clipUrl: `/clips/${source.id}`,
+    frameUrl: `/frames/${source.id}`,
+  };
+}
+
+// Helper function to reuse a cached ambient of the given profile or start rendering one, registering the job either way
+function prepareAmbient(source, videoUrl, useFfmpeg, profileId, duration) {
+  if (!useFfmpeg) {
+    const job = createJob('ambient', source, { status: 'completed', progress: 100, ready: true, videoUrl, ambientUrl: null });
+    return { jobId: job.id, ambientFilename: null, ready: true };
+  }
+
+  const profile = AMBIENT_PROFILES[profileId];
+  const assetKind = `ambient-${profileId}`;
+  const cachedFilename = getCachedAsset(source, assetKind);
+  if (cachedFilename) {
+    console.log('[ffmpeg] Reusing cached ambient for', source.name, '->', cachedFilename);
+    const job = createJob('ambient', source, { status: 'completed', progress: 100, ready: true, videoUrl, ambientUrl: `/media/${cachedFilename}` });
+    return { jobId: job.id, ambientFilename: cachedFilename, ready: true };
+  }
+
+  const ambientFilename = `${source.cacheKey}-ambient-${profileId}.${profile.codec === 'vp9' ? 'webm' : 'mp4'}`;
+  console.log(`Creating ambient version: ${ambientFilename} (${profileId} profile)`);
+  const job = createJob('ambient', source, { videoUrl, outputPath: path.join(outputsDir, ambientFilename), profile: profileId });
+  startAmbientJob(job.id, source, ambientFilename, profileId, duration);
+  return { jobId: job.id, ambientFilename, ready: false };
+}
+
+// Helper function to render the ambient version, walking the encoder list until one succeeds. duration
+// comes from the probe the upload already ran and drives the progress reports
+function startAmbientJob(jobId, source, ambientFilename, profileId, duration = 0) {
+  const originalPath = source.path;
+  const ambientPath = path.join(outputsDir, ambientFilename);
+  const profile = AMBIENT_PROFILES[profileId];
+
+  // H.264 profiles only try encoders that passed the capability probe, the override first
+  let encoders = profile.codec === 'vp9' ? [VP9_AMBIENT_ENCODER] : H264_ENCODERS;
+  
+  // Try encoders in sequence
+  let encoderIndex = 0;
+  let lastError = null;
+  
+  const tryNextEncoder = () => {
+    try {
+      // A cancelled job must not move on to the next encoder
+      if (jobs.get(jobId)?.status !== 'running') return;
+
+      if (encoderIndex >= encoders.length) {
+        console.error('[ffmpeg] All encoders failed');
+        failJob(jobId, `All encoders failed${lastError ? `: ${lastError}` : ''}`);
+        return;
+      }
+      
+      const encoderConfig = encoders[encoderIndex++];
+      console.log(`[ffmpeg] Trying encoder ${encoderIndex}/${encoders.length}: ${encoderConfig.name}`);
+      updateJob(jobId, {
+        encoder: encoderConfig.name,
+        encodersTried: [...(jobs.get(jobId).encodersTried || []), encoderConfig.name],
+        progress: 0,
+        attemptStartedAt: new Date().toISOString(),
+      }, 'encoder');
+      
+      const cmd = createFFmpegCommand(originalPath, ambientPath, encoderConfig, profile, jobId, duration);
+      
+      // If command creation failed, try next encoder
+      if (!cmd) {
+        console.log(`[ffmpeg] Failed to create command with encoder ${encoderConfig.name}, trying next`);
+        tryNextEncoder();
+        return;
+      }
+
+      // Each attempt advances the chain once, whether it ends by error or by the kill timer,
+      // so a timed-out encoder can't leave a second one running alongside the next
+      let attemptFinished = false;
+      const finishAttempt = () => {
+        if (attemptFinished) return false;
+        attemptFinished = true;
+        clearTimeout(killTimer);
+        jobProcesses.delete(jobId);
+        return true;
+      };
+      
+      cmd.on('end', () => {
+        if (!finishAttempt()) return;
+        console.log('[ffmpeg] ambient ready:', ambientFilename);
+        recordAsset(source, `ambient-${profileId}`, ambientFilename);
+        completeJob(jobId, { ambientUrl: `/media/${ambientFilename}` });
+      })
+      .on('error', err => {
+        if (!finishAttempt()) return;
+        console.error(`[ffmpeg] Error with encoder ${encoderConfig.name}:`, err);
+        lastError = err.message;
+        
+        // Try next encoder
+        tryNextEncoder();
+      })
+      .save(ambientPath);
+      
+      // Fail-safe: kill after 10 min
+      const killTimer = setTimeout(() => {
+        if (!finishAttempt()) return;
+        console.error('[ffmpeg] timeout – killing process for', ambientFilename);
+        try {
+          cmd.kill('SIGKILL');
+        } catch (err) {
+          console.error('[ffmpeg] Error killing process:', err);
+        }
+        if (fs.existsSync(ambientPath)) fs.unlinkSync(ambientPath);
+        lastError = `${encoderConfig.name} timed out`;
+        
+        // Try next encoder
+        tryNextEncoder();
+      }, 10 * 60 * 1000);
+
+      jobProcesses.set(jobId, { command: cmd, killTimer });
+    } catch (err) {
+      console.error('[ffmpeg] Unexpected error in tryNextEncoder:', err);
+      // Try next encoder
+      setTimeout(tryNextEncoder, 1000);
+    }
+  };
+  
+  // Start trying encoders once the queue has a free slot (and the startup probe has finished)
+  enqueueJob(jobId, isWatchedSource(source) ? 'high' : 'normal', () => {
+    detectEncoders().then(() => {
+      if (profile.codec !== 'vp9') encoders = ambientEncoders();
+      tryNextEncoder();
+    });
+  });
+}
+
+// Helper function to order the encoders an ambient job tries: the override first, then every
+// encoder that passed the capability probe. Without probe results the whole list is walked
+function ambientEncoders() {
+  const working = H264_ENCODERS.filter(encoder => encoderCapabilities.encoders.find(result => result.name === encoder.name)?.working);
+  const candidates = working.length ? working : H264_ENCODERS;
+  const override = candidates.find(encoder => encoder.name === encoderCapabilities.override);
+  return override ? [override, ...candidates.filter(encoder => encoder !== override)] : candidates;
+}
+
+// Helper function to read the cached capability probe and encoder override
+function loadEncoderCapabilities() {
+  const empty = { binary: null, probedAt: null, encoders: [], override: null };
+  try {
+    return { ...empty, ...JSON.parse(fs.readFileSync(encodersPath, 'utf8')) };
+  } catch {
+    return empty;
+  }
+}
+
+function saveEncoderCapabilities() {
+  try {
+    fs.writeFileSync(encodersPath, JSON.stringify(encoderCapabilities, null, 2));
+  } catch (err) {
+    console.error('[ffmpeg] Failed to save encoder capabilities:', err.message);
+  }
+}
+
+// Helper function to find out which H.264 encoders this ffmpeg build lists and which of them actually
+// encode on this machine (hardware encoders are listed even without the matching GPU or driver).
+// Cached results are reused until the ffmpeg binary changes; force re-runs the probe. Never rejects
+function detectEncoders(force = false) {
+  if (encoderProbe && (encoderProbeRunning || !force)) return encoderProbe;
+
+  encoderProbeRunning = true;
+  encoderProbe = (async () => {
+    const ffmpegBinary = await new Promise(resolve => ffmpeg()._getFfmpegPath((err, binaryPath) => resolve(err ? null : binaryPath)));
+    const stat = ffmpegBinary ? await fs.promises.stat(ffmpegBinary).catch(() => null) : null;
+    const binary = stat ? `${ffmpegBinary}:${stat.size}:${Math.round(stat.mtimeMs)}` : null;
+    if (!force && binary && encoderCapabilities.binary === binary && encoderCapabilities.encoders.length) {
+      console.log('[ffmpeg] Using cached encoder capabilities from', encoderCapabilities.probedAt);
+      return;
+    }
+    if (!binary) {
+      console.error('[ffmpeg] Encoder probe skipped, ffmpeg binary not found:', ffmpegBinary);
+      return;
+    }
+
+    console.log('[ffmpeg] Probing encoder capabilities...');
+    const listing = await runFfmpeg(ffmpegBinary, ['-hide_banner', '-encoders']).catch(() => '');
+    const results = [];
+    // One at a time: several hardware sessions at once can fail where one alone works
+    for (const encoder of H264_ENCODERS) {
+      const listed = new RegExp(`^\\s*V\\S*\\s+${encoder.name}\\s`, 'm').test(listing);
+      let error = listed ? null : 'Not included in this ffmpeg build';
+      if (listed) {
+        // Encode a few frames of a synthetic picture at the ambient rendition's size
+        error = await runFfmpeg(ffmpegBinary, [
+          '-hide_banner', '-loglevel', 'error',
+          '-f', 'lavfi', '-i', 'color=c=black:s=256x144:r=25',
+          '-frames:v', '5',
+          '-c:v', encoder.name, ...encoder.options,
+          '-f', 'null', '-',
+        ]).then(() => null, err => err.stderr?.trim().split('\n').pop() || (err.killed ? 'Test encode timed out' : `Test encode exited with code ${err.code}`));
+      }
+      console.log(`[ffmpeg] ${encoder.name}: ${error ? `unavailable (${error})` : 'working'}`);
+      results.push({ name: encoder.name, listed, working: !error, error });
+    }
+
+    Object.assign(encoderCapabilities, { binary, probedAt: new Date().toISOString(), encoders: results });
+    saveEncoderCapabilities();
+  })()
+    .catch(err => console.error('[ffmpeg] Encoder probe failed:', err.message))
+    .finally(() => { encoderProbeRunning = false; });
+
+  return encoderProbe;
+}
+
+// Helper function to run the ffmpeg binary directly and collect its stdout
+function runFfmpeg(binary, args) {
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { timeout: ENCODER_TEST_TIMEOUT }, (err, stdout, stderr) => {
+      if (err) return reject(Object.assign(err, { stderr }));
+      resolve(stdout);
+    });
+  });
+}
+
+// Helper function to shape the probe results for the diagnostics view
+function describeEncoders() {
+  return {
+    probedAt: encoderCapabilities.probedAt,
+    probing: encoderProbeRunning,
+    override: encoderCapabilities.override,
+    // What the next ambient job will try first
+    active: encoderCapabilities.encoders.length ? ambientEncoders()[0].name : null,
+    encoders: H264_ENCODERS.map(({ name, label }) => {
+      const result = encoderCapabilities.encoders.find(entry => entry.name === name);
+      return { name, label, listed: result?.listed ?? null, working: result?.working ?? null, error: result?.error ?? null };
+    }),
+  };
+}
+
+// Helper function to shape an ambient profile for API responses
+function describeAmbientProfile(id) {
+  return { id, ...AMBIENT_PROFILES[id] };
+}
+
+// Helper function to read the saved user settings, dropping a profile that no longer exists
+function loadSettings() {
+  const defaults = { ambientProfile: DEFAULT_AMBIENT_PROFILE };
+  try {
+    const saved = { ...defaults, ...JSON.parse(fs.readFileSync(settingsPath, 'utf8')) };
+    if (!AMBIENT_PROFILES[saved.ambientProfile]) saved.ambientProfile = DEFAULT_AMBIENT_PROFILE;
+    return saved;
+  } catch {
+    return defaults;
+  }
+}
+
+function saveSettings() {
+  try {
+    fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
+  } catch (err) {
+    console.error('[settings] Failed to save settings:', err.message);
+  }
+}
+
+// Helper function to reuse or start generating the seek-preview sprite sheets of a source.
+// Returns { url, jobId } where url is the WebVTT thumbnail index (jobId is null once it exists),
+// or null when the duration is unknown
+function prepareThumbnails(source, duration) {
+  const dirname = `${source.cacheKey}-thumbs`;
+  const outputDir = path.join(outputsDir, dirname);
+  const url = `/media/${dirname}/thumbnails.vtt`;
+
+  if (getCachedAsset(source, 'thumbnails')) return { url, jobId: null };
+  if (!duration || !isFinite(duration)) return null;
+
+  const runningJobId = thumbnailJobs.get(outputDir);
+  if (runningJobId && !FINISHED_JOB_STATUSES.includes(jobs.get(runningJobId)?.status)) {
+    return { url, jobId: runningJobId };
+  }
+
+  const interval = Math.max(2, Math.ceil(duration / MAX_THUMBNAILS));
+  const jobId = createJob('thumbnails', source, { outputPath: outputDir }).id;
+  thumbnailJobs.set(outputDir, jobId);
+
+  enqueueJob(jobId, 'normal', () => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    ensureDir(outputDir);
+
+    const cmd = ffmpeg(source.path)
+      // Decoding keyframes only is far faster, and previews don't need to be frame exact
+      .inputOptions(['-skip_frame', 'nokey'])
+      .outputOptions([
+        '-an', '-sn',
+        '-vf', [
+          `fps=1/${interval}`,
+          `scale=${THUMBNAIL_WIDTH}:${THUMBNAIL_HEIGHT}:force_original_aspect_ratio=decrease`,
+          `pad=${THUMBNAIL_WIDTH}:${THUMBNAIL_HEIGHT}:(ow-iw)/2:(oh-ih)/2`,
+          `tile=${THUMBNAIL_COLUMNS}x${THUMBNAIL_ROWS}`
+        ].join(','),
+        '-vsync', 'vfr',
+        '-q:v', '5'
+      ])
+      .on('start', cmd => console.log('[ffmpeg]', cmd))
+      .on('end', () => {
+        thumbnailJobs.delete(outputDir);
+        jobProcesses.delete(jobId);
+        fs.writeFileSync(path.join(outputDir, 'thumbnails.vtt'), buildThumbnailVtt(duration, interval));
+        console.log('[ffmpeg] thumbnails ready:', dirname);
+        recordAsset(source, 'thumbnails', dirname);
+        completeJob(jobId);
+      })
+      .on('error', err => {
+        thumbnailJobs.delete(outputDir);
+        jobProcesses.delete(jobId);
+        console.error('[ffmpeg] Thumbnail generation failed:', err.message);
+        fs.rmSync(outputDir, { recursive: true, force: true });
+        failJob(jobId, err.message);
+      });
+
+    trackProgress(cmd, jobId, duration);
+    cmd.save(path.join(outputDir, 'sprite%03d.jpg'));
+    jobProcesses.set(jobId, { command: cmd });
+  }, () => thumbnailJobs.delete(outputDir));
+
+  return { url, jobId };
+}
+
+// Helper function to reuse or start an EBU R128 loudness pass over the first audio stream.
+// Returns { url, jobId } where url is a JSON file with { integrated, truePeak, range },
+// or null when the source has no audio
+function prepareLoudness(source, probeData) {
+  const filename = `${source.cacheKey}-loudness.json`;
+  const outputPath = path.join(outputsDir, filename);
+  const url = `/media/${filename}`;
+
+  if (getCachedAsset(source, 'loudness')) return { url, jobId: null };
+  if (!probeData?.streams?.some(stream => stream.codec_type === 'audio')) return null;
+
+  const runningJobId = loudnessJobs.get(outputPath);
+  if (runningJobId && !FINISHED_JOB_STATUSES.includes(jobs.get(runningJobId)?.status)) {
+    return { url, jobId: runningJobId };
+  }
+
+  const jobId = createJob('loudness', source, { outputPath }).id;
+  loudnessJobs.set(outputPath, jobId);
+
+  enqueueJob(jobId, 'normal', () => {
+    const cmd = ffmpeg(source.path)
+      .outputOptions(['-map', '0:a:0', '-af', 'ebur128=peak=true'])
+      .format('null')
+      .on('start', cmd => console.log('[ffmpeg]', cmd))
+      // ebur128 prints its summary to stderr when the stream ends
+      .on('end', (stdout, stderr) => {
+        loudnessJobs.delete(outputPath);
+        jobProcesses.delete(jobId);
+        const loudness = parseLoudnessSummary(stderr);
+        if (loudness.integrated === null) {
+          failJob(jobId, 'ebur128 reported no integrated loudness');
+          return;
+        }
+        fs.writeFileSync(outputPath, JSON.stringify(loudness));
+        console.log(`[ffmpeg] loudness of ${source.name}: ${loudness.integrated} LUFS, peak ${loudness.truePeak} dBTP`);
+        recordAsset(source, 'loudness', filename);
+        completeJob(jobId);
+      })
+      .on('error', err => {
+        loudnessJobs.delete(outputPath);
+        jobProcesses.delete(jobId);
+        console.error('[ffmpeg] Loudness analysis failed:', err.message);
+        failJob(jobId, err.message);
+      });
+
+    trackProgress(cmd, jobId, probeData.format?.duration || 0);
+    cmd.save('-');
+    jobProcesses.set(jobId, { command: cmd });
+  }, () => loudnessJobs.delete(outputPath));
+
+  return { url, jobId };
+}
+
+// Helper function to read integrated loudness (LUFS), loudness range (LU) and true peak (dBTP)
+// from the ebur128 filter's summary. Silent tracks report -inf, which becomes null
+function parseLoudnessSummary(stderr = '') {
+  const summary = stderr.slice(stderr.lastIndexOf('Summary:'));
+  const read = pattern => {
+    const value = parseFloat(summary.match(pattern)?.[1]);
+    return Number.isFinite(value) ? value : null;
+  };
+  return {
+    integrated: read(/I:\s+(-?[\d.]+|-?inf) LUFS/),
+    range: read(/LRA:\s+(-?[\d.]+|-?inf) LU/),
+    truePeak: read(/Peak:\s+(-?[\d.]+|-?inf) dBFS/),
+  };
+}
+
+// Helper function to reuse or start computing the waveform envelope of the first audio stream.
+// Returns { url, jobId } where url is a JSON file with { duration, bucketDuration, peak, rms },
+// or null when the source has no audio or no known duration
+function prepareWaveform(source, probeData) {
+  const filename = `${source.cacheKey}-waveform.json`;
+  const outputPath = path.join(outputsDir, filename);
+  const url = `/media/${filename}`;
+  const duration = parseFloat(probeData?.format?.duration);
+
+  if (getCachedAsset(source, 'waveform')) return { url, jobId: null };
+  if (!probeData?.streams?.some(stream => stream.codec_type === 'audio') || !(duration > 0)) return null;
+
+  const runningJobId = waveformJobs.get(outputPath);
+  if (runningJobId && !FINISHED_JOB_STATUSES.includes(jobs.get(runningJobId)?.status)) {
+    return { url, jobId: runningJobId };
+  }
+
+  const jobId = createJob('waveform', source, { outputPath }).id;
+  waveformJobs.set(outputPath, jobId);
+
+  enqueueJob(jobId, 'normal', () => {
+    const envelope = createWaveformEnvelope(Math.ceil(duration * WAVEFORM_SAMPLE_RATE / WAVEFORM_BUCKETS));
+    const fail = err => {
+      waveformJobs.delete(outputPath);
+      jobProcesses.delete(jobId);
+      console.error('[ffmpeg] Waveform extraction failed:', err.message);
+      failJob(jobId, err.message);
+    };
+    const cmd = ffmpeg(source.path)
+      .outputOptions(['-map', '0:a:0'])
+      .audioChannels(1)
+      .audioFrequency(WAVEFORM_SAMPLE_RATE)
+      .audioCodec('pcm_s16le')
+      .format('s16le')
+      .on('start', cmd => console.log('[ffmpeg]', cmd))
+      .on('end', () => {
+        // ffmpeg can exit before the last piped samples are read
+        decoded.then(err => {
+          if (err) return fail(err);
+          waveformJobs.delete(outputPath);
+          jobProcesses.delete(jobId);
+          const { peak, rms } = envelope.finish();
+          fs.writeFileSync(outputPath, JSON.stringify({ duration, bucketDuration: duration / peak.length, peak, rms }));
+          recordAsset(source, 'waveform', filename);
+          completeJob(jobId);
+        });
+      })
+      .on('error', fail);
+
+    trackProgress(cmd, jobId, duration);
+    const pcm = cmd.pipe();
+    // Settles once every piped sample is read, or with the error when the pipe breaks or closes first,
+    // so a failed decode can't leave the job running and holding its slot
+    const decoded = new Promise(resolve => {
+      pcm.on('end', () => resolve(null));
+      pcm.on('error', resolve);
+      pcm.on('close', () => resolve(new Error('Audio stopped before the end of the file')));
+    });
+    pcm.on('data', chunk => envelope.push(chunk));
+    jobProcesses.set(jobId, { command: cmd });
+  }, () => waveformJobs.delete(outputPath));
+
+  return { url, jobId };
+}
+
+// Helper function to reuse or start scene-change detection on the first video stream.
+// Returns { url, jobId } where url is a JSON array of synthetic chapters ({ start, end, title }),
+// or null when the source already has chapters or has no video
+function prepareScenes(source, probeData) {
+  const filename = `${source.cacheKey}-scenes.json`;
+  const outputPath = path.join(outputsDir, filename);
+  const url = `/media/${filename}`;
+  const duration = parseFloat(probeData?.format?.duration);
+
+  if (extractChapters(probeData).length) return null;
+  if (getCachedAsset(source, 'scenes')) return { url, jobId: null };
+  if (!probeData?.streams?.some(stream => stream.codec_type === 'video') || !(duration > 0)) return null;
+
+  const runningJobId = sceneJobs.get(outputPath);
+  if (runningJobId && !FINISHED_JOB_STATUSES.includes(jobs.get(runningJobId)?.status)) {
+    return { url, jobId: runningJobId };
+  }
+
+  const jobId = createJob('scenes', source, { outputPath }).id;
+  sceneJobs.set(outputPath, jobId);
+
+  enqueueJob(jobId, 'normal', () => {
+    // showinfo logs every selected frame; the summary passed to 'end' is truncated, so read lines as they come
+    const cuts = [];
+    const cmd = ffmpeg(source.path)
+      .outputOptions([
+        '-map', '0:v:0',
+        '-an',
+        // Scoring small frames is much faster and finds the same cuts
+        '-vf', `scale=320:-2,select='gt(scene,${SCENE_THRESHOLD})',showinfo`,
+      ])
+      .format('null')
+      .on('start', cmd => console.log('[ffmpeg]', cmd))
+      .on('stderr', line => {
+        const time = parseFloat(line.match(/\[Parsed_showinfo.*pts_time:\s*([\d.]+)/)?.[1]);
+        if (Number.isFinite(time)) cuts.push(time);
+      })
+      .on('end', () => {
+        sceneJobs.delete(outputPath);
+        jobProcesses.delete(jobId);
+        const scenes = buildSceneChapters(cuts, duration);
+        fs.writeFileSync(outputPath, JSON.stringify(scenes));
+        console.log(`[ffmpeg] ${scenes.length} scenes detected in ${source.name}`);
+        recordAsset(source, 'scenes', filename);
+        completeJob(jobId);
+      })
+      .on('error', err => {
+        sceneJobs.delete(outputPath);
+        jobProcesses.delete(jobId);
+        console.error('[ffmpeg] Scene detection failed:', err.message);
+        failJob(jobId, err.message);
+      });
+
+    trackProgress(cmd, jobId, duration);
+    cmd.save('-');
+    jobProcesses.set(jobId, { command: cmd });
+  }, () => sceneJobs.delete(outputPath));
+
+  return { url, jobId };
+}
+
+// Helper function to turn scene cut times into consecutive chapters covering the whole video,
+// dropping cuts that would leave a scene shorter than MIN_SCENE_LENGTH
+function buildSceneChapters(cuts, duration) {
+  const starts = [0];
+  for (const cut of [...cuts].sort((a, b) => a - b)) {
+    if (cut - starts[starts.length - 1] >= MIN_SCENE_LENGTH && duration - cut >= MIN_SCENE_LENGTH) {
+      starts.push(cut);
+    }
+  }
+  return starts.map((start, i) => ({
+    start,
+    end: starts[i + 1] ?? duration,
+    title: `Scene ${i + 1}`,
+  }));
+}
+
+// Helper function to reduce streamed 16-bit PCM to per-bucket peak and RMS levels (0-1, 3 decimals).
+// Chunks may split a sample, so a trailing odd byte is carried over to the next chunk
+function createWaveformEnvelope(samplesPerBucket) {
+  const peak = [];
+  const rms = [];
+  let leftover = null;
+  let bucketPeak = 0;
+  let bucketSquares = 0;
+  let bucketSamples = 0;
+
+  const closeBucket = () => {
+    peak.push(Math.round(bucketPeak * 1000) / 1000);
+    rms.push(Math.round(Math.sqrt(bucketSquares / bucketSamples) * 1000) / 1000);
+    bucketPeak = 0;
+    bucketSquares = 0;
+    bucketSamples = 0;
+  };
+
+  return {
+    push(chunk) {
+      const data = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      leftover = usable < data.length ? data.subarray(usable) : null;
+      for (let offset = 0; offset < usable; offset += 2) {
+        const sample = Math.abs(data.readInt16LE(offset)) / 32768;
+        if (sample > bucketPeak) bucketPeak = sample;
+        bucketSquares += sample * sample;
+        if (++bucketSamples === samplesPerBucket) closeBucket();
+      }
+    },
+    finish() {
+      if (bucketSamples) closeBucket();
+      return { peak, rms };
+    },
+  };
+}
+
+// Helper function to write the WebVTT index mapping each time range to a tile of a sprite sheet
+function buildThumbnailVtt(duration, interval) {
+  const perSheet = THUMBNAIL_COLUMNS * THUMBNAIL_ROWS;
+  const count = Math.ceil(duration / interval);
+  const cues = ['WEBVTT', ''];
+
+  for (let i = 0; i < count; i++) {
+    const sheet = String(Math.floor(i / perSheet) + 1).padStart(3, '0');
+    const tile = i % perSheet;
+    const x = (tile % THUMBNAIL_COLUMNS) * THUMBNAIL_WIDTH;
+    const y = Math.floor(tile / THUMBNAIL_COLUMNS) * THUMBNAIL_HEIGHT;
+    cues.push(
+      `${formatVttTime(i * interval)} --> ${formatVttTime(Math.min((i + 1) * interval, duration))}`,
+      `sprite${sheet}.jpg#xywh=${x},${y},${THUMBNAIL_WIDTH},${THUMBNAIL_HEIGHT}`,
+      ''
+    );
+  }
+  return cues.join('\n');
+}
+
+// Helper function to format seconds as a WebVTT timestamp (HH:MM:SS.mmm)
+function formatVttTime(seconds) {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+// Helper function to normalize an ffprobe field: "N/A", "unknown" and empty values become null
+function probeValue(value) {
+  return value === undefined || value === '' || value === 'N/A' || value === 'unknown' ? null : value;
+}
+
+// Helper function to parse an ffprobe rational ("24000/1001") into a number
+function parseRational(value) {
+  const [num, den] = String(value || '').split('/').map(Number);
+  return num && den ? Math.round((num / den) * 1000) / 1000 : null;
+}
+
+// Helper function to read the frame rate of a source's main video stream for frame stepping. Null when
+// ffprobe doesn't know it, or reports a timebase (1000/1) instead of a rate as it does for some containers
+function extractFrameRate(probeData) {
+  const video = probeData?.streams?.find(s => s.codec_type === 'video' && !s.disposition?.attached_pic);
+  const frameRate = video && (parseRational(video.avg_frame_rate) || parseRational(video.r_frame_rate));
+  return frameRate && frameRate <= 240 ? frameRate : null;
+}
+
+// Helper function to name the HDR format from a video stream's transfer characteristics
+function detectHdr(stream) {
+  if (['dvh1', 'dvhe'].includes(stream.codec_tag_string)) return 'Dolby Vision';
+  if (stream.color_transfer === 'smpte2084') return 'HDR10';
+  if (stream.color_transfer === 'arib-std-b67') return 'HLG';
+  return null;
+}
+
+// Helper function to shape ffprobe output for the /media-info endpoint
+function describeMedia(source, data) {
+  const format = data.format || {};
+  const streams = data.streams || [];
+  const numeric = value => (probeValue(value) === null ? null : Number(value));
+  const describeStream = stream => ({
+    index: stream.index,
+    codec: probeValue(stream.codec_name),
+    codecLongName: probeValue(stream.codec_long_name),
+    profile: probeValue(stream.profile),
+    bitRate: numeric(stream.bit_rate),
+    language: stream.tags?.language || 'und',
+    default: stream.disposition?.default === 1,
+    tags: stream.tags || {},
+  });
+
+  return {
+    name: source.name,
+    size: source.size ?? numeric(format.size),
+    container: probeValue(format.format_long_name) || probeValue(format.format_name),
+    duration: numeric(format.duration),
+    bitRate: numeric(format.bit_rate),
+    playback: planPlayback(data).mode,
+    tags: format.tags || {},
+    chapters: extractChapters(data).length,
+    video: streams.filter(stream => stream.codec_type === 'video').map(stream => ({
+      ...describeStream(stream),
+      level: numeric(stream.level),
+      width: stream.width,
+      height: stream.height,
+      displayAspectRatio: probeValue(stream.display_aspect_ratio),
+      frameRate: parseRational(stream.avg_frame_rate) || parseRational(stream.r_frame_rate),
+      pixelFormat: probeValue(stream.pix_fmt),
+      bitDepth: numeric(stream.bits_per_raw_sample),
+      color: {
+        range: probeValue(stream.color_range),
+        space: probeValue(stream.color_space),
+        transfer: probeValue(stream.color_transfer),
+        primaries: probeValue(stream.color_primaries),
+      },
+      hdr: detectHdr(stream),
+    })),
+    audio: streams.filter(stream => stream.codec_type === 'audio').map(stream => ({
+      ...describeStream(stream),
+      channels: stream.channels,
+      channelLayout: probeValue(stream.channel_layout),
+      sampleRate: numeric(stream.sample_rate),
+    })),
+    subtitles: streams.filter(stream => stream.codec_type === 'subtitle').map(describeStream),
+    other: streams
+      .filter(stream => !['video', 'audio', 'subtitle'].includes(stream.codec_type))
+      .map(stream => ({ ...describeStream(stream), type: stream.codec_type })),
+  };
+}
+
+// Helper function to decide whether the player gets the original file or an HLS stream. Waits for the
+// stream's first segment unless waitForStream is false; then hlsJobId names the job to follow until
+// the stream is ready
+async function preparePlayback(source, probeData, waitForStream = true) {
+  const plan = planPlayback(probeData);
+  if (plan.mode === 'direct') {
+    // Remote videos the browser can play are streamed from where they are
+    return { mode: plan.mode, videoUrl: source.remote ? source.path : `/stream/${source.id}`, hlsJobId: null };
+  }
+
+  console.log(`[ffmpeg] ${source.name} is not browser-playable, serving HLS (${plan.mode})`);
+  const { jobId, firstSegment } = startHlsJob(source, 'hls', plan, probeData?.format?.duration || 0);
+  if (!waitForStream) {
+    // A failure is recorded on the job, which is where the player looks for it
+    firstSegment.catch(() => {});
+    return { mode: plan.mode, videoUrl: jobs.get(jobId).videoUrl, hlsJobId: jobs.get(jobId).ready ? null : jobId };
+  }
+  await firstSegment;
+  return { mode: plan.mode, videoUrl: jobs.get(jobId).videoUrl, hlsJobId: null };
+}
+
+// Helper function to check probe data against what Chromium can decode.
+// mode is 'direct' (play as-is), 'remux' (copy H.264 into HLS) or 'transcode' (re-encode video)
+function planPlayback(probeData, audioIndex) {
+  const streams = probeData?.streams || [];
+  const video = streams.find(s => s.codec_type === 'video' && !s.disposition?.attached_pic);
+  const audio = audioIndex !== undefined
+    ? streams.find(s => s.index === audioIndex)
+    : streams.find(s => s.codec_type === 'audio');
+  const formatName = probeData?.format?.format_name || '';
+
+  // Audio-only files or failed probes are left to the browser
+  if (!video) {
+    return { mode: 'direct', videoPlayable: true };
+  }
+
+  // 10-bit and 4:2:2/4:4:4 H.264 profiles are not hardware or software decodable in Chromium
+  const h264Decodable = video.codec_name === 'h264' && !/^High (10|4:2:2|4:4:4)/.test(video.profile || '');
+  const videoPlayable = video.codec_name === 'h264' ? h264Decodable : BROWSER_VIDEO_CODECS.includes(video.codec_name);
+  const audioPlayable = !audio || BROWSER_AUDIO_CODECS.includes(audio.codec_name);
+  // ffprobe reports MKV and WebM alike, so Matroska is only trusted with WebM codecs
+  const containerPlayable = /mp4|mov|ogg/.test(formatName) ||
+    (/webm/.test(formatName) && WEBM_VIDEO_CODECS.includes(video.codec_name) && (!audio || WEBM_AUDIO_CODECS.includes(audio.codec_name)));
+
+  let mode = 'transcode';
+  if (videoPlayable && audioPlayable && containerPlayable) {
+    mode = 'direct';
+  } else if (h264Decodable) {
+    mode = 'remux';
+  }
+
+  return {
+    mode,
+    videoPlayable,
+    copyVideo: mode === 'remux',
+    copyAudio: !!audio && HLS_AUDIO_CODECS.includes(audio.codec_name),
+    audioIndex,
+  };
+}
+
+// Helper function to segment a source into an EVENT HLS playlist (<cacheKey>-<asset>/index.m3u8)
+// while ffmpeg is still running. Returns { jobId, firstSegment }, where firstSegment resolves with the
+// job id as soon as the first segment is listed.
+function startHlsJob(source, asset, plan, inputDuration) {
+  const dirname = `${source.cacheKey}-${asset}`;
+  const outputDir = path.join(outputsDir, dirname);
+  const playlistPath = path.join(outputDir, 'index.m3u8');
+  const videoUrl = `/media/${dirname}/index.m3u8`;
+
+  // A finished playlist is reused; a half-written one (e.g. server restarted mid-run) is discarded
+  if (getCachedAsset(source, asset)) {
+    console.log('[ffmpeg] Reusing cached HLS stream', dirname);
+    const job = createJob('hls', source, { status: 'completed', progress: 100, ready: true, videoUrl });
+    return { jobId: job.id, firstSegment: Promise.resolve(job.id) };
+  }
+  if (hlsJobs.has(outputDir)) {
+    return hlsJobs.get(outputDir);
+  }
+
+  const jobId = createJob('hls', source, { videoUrl, outputPath: outputDir, mode: plan.mode }).id;
+
+  const promise = new Promise((resolve, reject) => {
+    let playlistWatcher;
+
+    // The player is blocked on this stream, so it starts without waiting for a slot once its source is watched
+    enqueueJob(jobId, 'high', () => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+      ensureDir(outputDir);
+
+      const cmd = ffmpeg(source.path)
+        .outputOptions([
+          '-map', '0:v:0',
+          '-map', plan.audioIndex !== undefined ? `0:${plan.audioIndex}` : '0:a:0?',
+          ...(plan.copyVideo
+            ? ['-c:v', 'copy']
+            : ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '21', '-pix_fmt', 'yuv420p']),
+          ...(plan.copyAudio ? ['-c:a', 'copy'] : ['-c:a', 'aac', '-ac', '2', '-b:a', '192k']),
+          '-f', 'hls',
+          '-hls_time', '4',
+          '-hls_playlist_type', 'event',
+          '-hls_segment_filename', path.join(outputDir, 'segment%05d.ts')
+        ])
+        .on('start', cmd => console.log('[ffmpeg]', cmd))
+        .on('end', () => {
+          clearInterval(playlistWatcher);
+          hlsJobs.delete(outputDir);
+          jobProcesses.delete(jobId);
+          console.log('[ffmpeg] HLS stream complete:', dirname);
+          recordAsset(source, asset, dirname);
+          completeJob(jobId);
+          resolve(jobId);
+        })
+        .on('error', err => {
+          clearInterval(playlistWatcher);
+          hlsJobs.delete(outputDir);
+          jobProcesses.delete(jobId);
+          console.error('[ffmpeg] HLS stream failed:', err.message);
+          fs.rmSync(outputDir, { recursive: true, force: true });
+          failJob(jobId, err.message);
+          reject(err);
+        });
+
+      trackProgress(cmd, jobId, inputDuration);
+      cmd.save(playlistPath);
+      jobProcesses.set(jobId, { command: cmd });
+
+      // ffmpeg writes the playlist once the first segment is complete
+      playlistWatcher = setInterval(() => {
+        if (fs.existsSync(playlistPath) && fs.readFileSync(playlistPath, 'utf8').includes('#EXTINF')) {
+          clearInterval(playlistWatcher);
+          updateJob(jobId, { ready: true });
+          resolve(jobId);
+        }
+      }, 250);
+    }, () => {
+      hlsJobs.delete(outputDir);
+      reject(new Error('Cancelled'));
+    }, { playback: true });
+  });
+
+  const hlsJob = { jobId, firstSegment: promise };
+  hlsJobs.set(outputDir, hlsJob);
+  return hlsJob;
+}
+
+// Helper function to extract metadata (track urls point at the registered source)
+function extractMetadata(source, callback) {
+  let audioTracks = [];
+  let subtitles = [];
+  let inputDuration = 0;
+  
+  ffmpeg.ffprobe(source.path, ['-show_chapters'], (err, data) => {
+    if (!err && data && data.streams) {
+      data.streams.forEach((stream) => {
+        if (stream.codec_type === 'audio') {
+          audioTracks.push({
+            index: stream.index,
+            channels: stream.channels,
+            codec: stream.codec_name,
+            language: stream.tags?.language || 'und',
+            renditionUrl: `/audio/${source.id}/${stream.index}`,
+          });
+        } else if (stream.codec_type === 'subtitle') {
+          subtitles.push({
+            index: stream.index,
+            codec: stream.codec_name,
+            language: stream.tags?.language || 'und',
+            // Only text-based streams can be converted to WebVTT; bitmap subs (PGS, VobSub) get no url
+            url: TEXT_SUBTITLE_CODECS.includes(stream.codec_name)
+              ? `/subtitles/${source.id}/${stream.index}`
+              : null,
+          });
+        }
+      });
+      if (data.format && data.format.duration) {
+        inputDuration = data.format.duration;
+      }
+    }
+    callback(audioTracks, subtitles, inputDuration, err ? null : data, err);
+  });
+}
+
+// Helper function to turn ffprobe chapters (probed with -show_chapters) into { start, end, title }
+function extractChapters(probeData) {
+  return (probeData?.chapters || [])
+    .map((chapter, i) => ({
+      start: Number(chapter.start_time) || 0,
+      end: Number(chapter.end_time) || 0,
+      // fluent-ffmpeg leaves chapter tags in their flat "TAG:key" form
+      title: chapter.tags?.title || chapter['TAG:title'] || `Chapter ${i + 1}`,
+    }))
+    .filter(chapter => chapter.end > chapter.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+// Helper function to create an ambient rendition command for a profile with the specified encoder
+function createFFmpegCommand(inputPath, outputPath, encoderConfig, profile, jobId, inputDuration) {
+  const { name: encoder, options: encoderOptions } = encoderConfig;
+  
+  console.log(`[ffmpeg] Trying encoder: ${encoder}`);
+  
+  try {
+    // Downscale first so the blur and colour filters run on the small frames
+    const filters = [`scale=-2:${profile.height}`];
+    if (profile.fps) filters.push(`fps=${profile.fps}`);
+    if (profile.blur) filters.push(`gblur=sigma=${profile.blur}`);
+    if (profile.saturation !== 1) filters.push(`eq=saturation=${profile.saturation}`);
+
+    // Create the command with basic options first
+    const cmd = ffmpeg(inputPath)
+      .inputOptions(['-hwaccel', 'auto'])
+      .outputOptions([
+        '-vf', filters.join(','),
+        '-an', // no audio
+        ...(profile.codec === 'vp9' ? [] : ['-movflags', 'faststart'])
+      ]);
+    
+    // Now add the encoder-specific options
+    cmd.outputOptions([
+      '-c:v', encoder,
+      ...encoderOptions
+    ]);
+    
+    // Add event handlers
+    cmd.on('start', cmd => console.log('[ffmpeg]', cmd));
+    
+    trackProgress(cmd, jobId, inputDuration);
+    
+    return cmd;
+  } catch (err) {
+    console.error(`[ffmpeg] Error creating command with encoder ${encoder}:`, err);
+    return null;
+  }
+}
+
+// Helper function to mirror ffmpeg progress into the job store
+function trackProgress(cmd, jobId, inputDuration) {
+  cmd.on('progress', p => {
+    if (jobs.get(jobId)?.status !== 'running') return;
+    
+    let percent = 0;
+    if (p.percent && !isNaN(p.percent)) {
+      percent = p.percent;
+    } else if (p.timemark && inputDuration) {
+      // timemark format HH:MM:SS.xx
+      const parts = p.timemark.split(':').map(Number);
+      const seconds = parts[0]*3600 + parts[1]*60 + parts[2];
+      percent = (seconds / inputDuration) * 100;
+    }
+    
+    updateJob(jobId, { progress: Math.min(99, Math.round(percent)) });
+  });
+}
+
+/**
+ * GET /stream/:source
+ * Serves a registered source straight from disk with Range/206, ETag and
+ * conditional request support, so multi-GB files play without being copied.
+ */
+app.get('/stream/:source', (req, res) => {
+  const source = sources.get(req.params.source);
+  if (!source || !fs.existsSync(source.path)) {
+    return res.status(404).json({ error: 'Source not found' });
+  }
+
+  // Whatever is being played gets its pending processing moved up the queue
+  watchSource(source);
+
+  res.type(detectContentType(source.path));
+  // sendFile handles Range (206/416), If-Range, ETag/If-None-Match and HEAD requests
+  res.sendFile(source.path, { dotfiles: 'allow', acceptRanges: true, lastModified: true, etag: true }, (err) => {
+    // Players abort range requests constantly while seeking, which is not an error
+    if (!err || err.code === 'ECONNABORTED' || err.code === 'ECONNRESET' || res.headersSent) return;
+
+    if (err.status === 416) {
+      res.set('Content-Range', `bytes */${fs.statSync(source.path).size}`);
+      return res.status(416).end();
+    }
+    console.error('[stream] Failed to stream', source.path, err.message);
+    res.status(err.status || 500).json({ error: 'Failed to stream file' });
+  });
+});
+
+// Helper function to register a file for streaming and derived assets.
+// The id is reused for a known path unless the file's content changed since.
+async function registerSource(filePath, name) {
+  const cacheKey = await fingerprintFile(filePath);
+  const existing = sources.get(sourceIdsByPath.get(filePath));
+  if (existing && existing.cacheKey === cacheKey) return existing;
+
+  const { size } = await fs.promises.stat(filePath);
+  const source = { id: uuidv4(), path: filePath, name, size, cacheKey };
+  sources.set(source.id, source);
+  sourceIdsByPath.set(filePath, source.id);
+  return source;
+}
+
+// Helper function to register a remote URL as a source. ffmpeg reads it over the network,
+// so it can be used for derived assets but is never served from /stream
+function registerRemoteSource(url) {
+  const existing = sources.get(sourceIdsByPath.get(url));
+  if (existing) return existing;
+
+  const cacheKey = createHash('sha1').update(`url:${url}`).digest('hex').slice(0, 24);
+  const segment = new URL(url).pathname.split('/').pop() || url;
+  let name = segment;
+  try {
+    name = decodeURIComponent(segment);
+  } catch {
+    // Malformed percent-encoding ("%E0%A4%A"): show the segment as it is
+  }
+  const source = { id: uuidv4(), path: url, name, size: null, cacheKey, remote: true };
+  sources.set(source.id, source);
+  sourceIdsByPath.set(url, source.id);
+  return source;
+}
+
+// Helper function to fingerprint a file from its size plus sampled chunks (start, middle, end).
+// Fast on multi-GB files while still telling apart same-named files from different folders.
+async function fingerprintFile(filePath) {
+  const { size } = await fs.promises.stat(filePath);
+  const hash = createHash('sha1');
+  hash.update(String(size));
+
+  // Small files are hashed whole
+  const sampled = size > FINGERPRINT_CHUNK_SIZE * 3;
+  const offsets = sampled
+    ? [0, Math.floor(size / 2) - FINGERPRINT_CHUNK_SIZE / 2, size - FINGERPRINT_CHUNK_SIZE]
+    : [0];
+  const length = sampled ? FINGERPRINT_CHUNK_SIZE : size;
+
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    for (const offset of offsets) {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    await handle.close();
+  }
+  return hash.digest('hex').slice(0, 24);
+}
+
+// Helper function to move a registry an earlier version kept in outputs/ over to data/. A leftover copy
+// is deleted either way, since outputs/ is served
+function migrateDataFile(fileName) {
+  const legacyPath = path.join(outputsDir, fileName);
+  if (!fs.existsSync(legacyPath)) return;
+  try {
+    const dataPath = path.join(dataDir, fileName);
+    if (fs.existsSync(dataPath)) fs.rmSync(legacyPath);
+    else fs.renameSync(legacyPath, dataPath);
+  } catch (err) {
+    console.error(`Failed to move ${fileName} out of outputs/:`, err.message);
+  }
+}
+
+// Helper function to read the cache manifest, starting fresh if it is missing or corrupt
+function loadManifest() {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    if (manifest && manifest.entries) return manifest;
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error('[cache] Ignoring unreadable manifest:', err.message);
+  }
+  return { version: 1, entries: {} };
+}
+
+// Helper function to persist the manifest atomically (write + rename)
+function saveManifest() {
+  clearTimeout(manifestSaveTimer);
+  manifestSaveTimer = null;
+  const tempPath = `${manifestPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(cacheManifest, null, 2));
+  fs.renameSync(tempPath, manifestPath);
+}
+
+// Helper function to record a finished derived asset (file or directory in outputs/) for a source
+function recordAsset(source, kind, filename) {
+  const entry = cacheManifest.entries[source.cacheKey] ||= { name: source.name, size: source.size, assets: {} };
+  entry.name = source.name;
+  entry.assets[kind] = filename;
+  entry.updatedAt = entry.lastAccessedAt = new Date().toISOString();
+  saveManifest();
+  enforceCacheLimit();
+}
+
+// Helper function to look up a cached asset, dropping manifest entries whose files were deleted
+function getCachedAsset(source, kind) {
+  const entry = cacheManifest.entries[source.cacheKey];
+  const filename = entry?.assets[kind];
+  if (!filename) return null;
+
+  if (!fs.existsSync(path.join(outputsDir, filename))) {
+    delete entry.assets[kind];
+    saveManifest();
+    return null;
+  }
+  touchCacheEntry(source.cacheKey);
+  return filename;
+}
+
+// Helper function to mark a cache entry as just used. Saving is batched since every
+// HLS segment request lands here
+function touchCacheEntry(cacheKey) {
+  const entry = cacheKey && cacheManifest.entries[cacheKey];
+  if (!entry) return;
+  entry.lastAccessedAt = new Date().toISOString();
+  if (!manifestSaveTimer) manifestSaveTimer = setTimeout(saveManifest, 5000);
+}
+
+// Helper function to get the size of an asset in outputs/, walking directories (HLS streams, sprite sheets)
+function assetBytes(filename) {
+  const walk = target => {
+    try {
+      const stat = fs.statSync(target);
+      if (!stat.isDirectory()) return stat.size;
+      return fs.readdirSync(target).reduce((total, child) => total + walk(path.join(target, child)), 0);
+    } catch {
+      return 0;
+    }
+  };
+  return walk(path.join(outputsDir, filename));
+}
+
+// Helper function to check whether a cache entry is needed right now: a job is writing to it
+// or the player is on its source
+function isCacheEntryInUse(cacheKey) {
+  if (sources.get(watchedSourceId)?.cacheKey === cacheKey) return true;
+  return [...jobs.values()].some(job => job.source.cacheKey === cacheKey && !FINISHED_JOB_STATUSES.includes(job.status));
+}
+
+// Helper function to describe a cache entry for the /cache endpoints
+function describeCacheEntry(cacheKey) {
+  const entry = cacheManifest.entries[cacheKey];
+  const assets = Object.entries(entry.assets).map(([kind, filename]) => ({ kind, filename, bytes: assetBytes(filename) }));
+  return {
+    key: cacheKey,
+    name: entry.name,
+    sourceSize: entry.size,
+    bytes: assets.reduce((total, asset) => total + asset.bytes, 0),
+    assets,
+    updatedAt: entry.updatedAt,
+    lastAccessedAt: entry.lastAccessedAt || entry.updatedAt,
+    inUse: isCacheEntryInUse(cacheKey),
+  };
+}
+
+// Helper function to delete every derived asset of a cache entry. Returns the bytes freed
+function removeCacheEntry(cacheKey) {
+  const { bytes, assets } = describeCacheEntry(cacheKey);
+  assets.forEach(({ filename }) => fs.rmSync(path.join(outputsDir, filename), { recursive: true, force: true }));
+  delete cacheManifest.entries[cacheKey];
+  saveManifest();
+  console.log(`[cache] Removed ${cacheKey} (${assets.length} assets, ${bytes} bytes)`);
+  return bytes;
+}
+
+// Helper function to get the current size cap
+function cacheLimitBytes() {
+  return cacheManifest.limitBytes ?? DEFAULT_CACHE_MAX_BYTES;
+}
+
+// Helper function to evict least-recently-used entries until the cache fits its size cap.
+// Entries in use are skipped even if that leaves the cache over the cap
+function enforceCacheLimit() {
+  const entries = Object.keys(cacheManifest.entries).map(describeCacheEntry);
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  if (total <= cacheLimitBytes()) return;
+
+  entries
+    .filter(entry => !entry.inUse)
+    .sort((a, b) => a.lastAccessedAt.localeCompare(b.lastAccessedAt))
+    .forEach(entry => {
+      if (total <= cacheLimitBytes()) return;
+      total -= removeCacheEntry(entry.key);
+    });
+}
+
+// Helper function to read the job registry. Jobs that were running when the server stopped
+// can't be resumed, so they are marked failed and their partial output is removed
+function loadJobs() {
+  const loaded = new Map();
+  try {
+    const records = JSON.parse(fs.readFileSync(jobsPath, 'utf8'));
+    for (const job of Array.isArray(records) ? records : []) {
+      if (!FINISHED_JOB_STATUSES.includes(job.status)) {
+        if (job.outputPath) fs.rmSync(job.outputPath, { recursive: true, force: true });
+        Object.assign(job, {
+          status: 'failed',
+          error: 'Interrupted by server restart',
+          finishedAt: new Date().toISOString(),
+          queuePosition: null,
+        });
+      }
+      loaded.set(job.id, job);
+    }
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error('[jobs] Ignoring unreadable job registry:', err.message);
+  }
+  return loaded;
+}
+
+// Helper function to persist the job registry atomically, pruning the oldest finished jobs
+function saveJobs() {
+  clearTimeout(jobsSaveTimer);
+  jobsSaveTimer = null;
+
+  const finished = [...jobs.values()]
+    .filter(job => FINISHED_JOB_STATUSES.includes(job.status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  finished.slice(MAX_JOB_HISTORY).forEach(job => jobs.delete(job.id));
+
+  try {
+    const tempPath = `${jobsPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify([...jobs.values()], null, 2));
+    fs.renameSync(tempPath, jobsPath);
+  } catch (err) {
+    console.error('[jobs] Failed to save job registry:', err.message);
+  }
+}
+
+// Helper function to batch registry writes, since progress updates arrive several times a second
+function scheduleJobsSave() {
+  if (!jobsSaveTimer) jobsSaveTimer = setTimeout(saveJobs, 1000);
+}
+
+// Helper function to register a new job for a source
+function createJob(type, source, fields = {}) {
+  const now = new Date().toISOString();
+  const job = {
+    id: uuidv4(),
+    type,
+    source: { id: source.id, name: source.name, cacheKey: source.cacheKey },
+    status: 'running',
+    progress: 0,
+    ready: false,
+    encoder: null,
+    encodersTried: [],
+    error: null,
+    priority: 'normal',
+    queuePosition: null,
+    createdAt: now,
+    startedAt: now,
+    finishedAt: null,
+    ...fields,
+  };
+  if (job.status !== 'running') job.finishedAt = now;
+  jobs.set(job.id, job);
+  scheduleJobsSave();
+  return job;
+}
+
+// Helper function to merge fields into a job record and notify event stream listeners
+function updateJob(jobId, fields, event = 'progress') {
+  const job = jobs.get(jobId);
+  if (!job) return null;
+  Object.assign(job, fields);
+  scheduleJobsSave();
+  jobEvents.emit(jobId, event, job);
+  return job;
+}
+
+// Helper function to mark a job finished successfully
+function completeJob(jobId, fields = {}) {
+  if (jobs.get(jobId)?.status !== 'running') return;
+  updateJob(jobId, { ...fields, status: 'completed', progress: 100, ready: true, finishedAt: new Date().toISOString() }, 'completed');
+  releaseJobSlot(jobId);
+}
+
+// Helper function to mark a job failed; cancelled jobs keep their status
+function failJob(jobId, error) {
+  if (jobs.get(jobId)?.status !== 'running') return;
+  updateJob(jobId, { status: 'failed', error, finishedAt: new Date().toISOString() }, 'failed');
+  releaseJobSlot(jobId);
+}
+
+// Helper function to stop a queued or running job's ffmpeg process and discard its partial output
+function cancelJob(jobId) {
+  const job = jobs.get(jobId);
+  if (!job || FINISHED_JOB_STATUSES.includes(job.status)) return;
+
+  // Mark first so the error handlers fired by the kill don't record a failure or try another encoder
+  const queued = jobQueue.find(entry => entry.jobId === jobId);
+  updateJob(jobId, { status: 'cancelled', error: 'Cancelled', finishedAt: new Date().toISOString(), queuePosition: null }, 'cancelled');
+  releaseJobSlot(jobId);
+  queued?.abort?.();
+
+  const proc = jobProcesses.get(jobId);
+  if (proc) {
+    clearTimeout(proc.killTimer);
+    try {
+      proc.command.kill('SIGKILL');
+    } catch (err) {
+      console.error('[jobs] Error killing process:', err);
+    }
+    jobProcesses.delete(jobId);
+  }
+  if (job.outputPath) fs.rmSync(job.outputPath, { recursive: true, force: true });
+  console.log(`[jobs] Cancelled ${job.type} job ${jobId}`);
+}
+
+// Helper function to add a job to the processing queue; start() spawns its work once a slot is free,
+// abort() settles anything waiting on a job that is cancelled before it started. Playback jobs start
+// right away while their source is the watched one
+function enqueueJob(jobId, priority, start, abort, { playback = false } = {}) {
+  updateJob(jobId, { status: 'queued', priority, startedAt: null });
+  jobQueue.push({ jobId, start, abort, playback });
+  sortJobQueue();
+  runQueuedJobs();
+}
+
+// Helper function to order the queue by priority, then by arrival
+function sortJobQueue() {
+  const rank = entry => JOB_PRIORITIES.indexOf(jobs.get(entry.jobId)?.priority);
+  const created = entry => jobs.get(entry.jobId)?.createdAt || '';
+  jobQueue.sort((a, b) => rank(a) - rank(b) || created(a).localeCompare(created(b)));
+}
+
+// Helper function to start queued jobs while slots are free, plus the watched source's playback jobs
+// regardless, then tell waiting jobs where they stand
+function runQueuedJobs() {
+  for (const entry of [...jobQueue]) {
+    // A job failing to start runs the queue again, which may already have started later entries
+    if (!jobQueue.includes(entry)) continue;
+    const reserved = entry.playback && jobs.get(entry.jobId)?.source.id === watchedSourceId;
+    if (!reserved && activeJobIds.size >= MAX_CONCURRENT_JOBS) continue;
+
+    const { jobId, start } = entry;
+    jobQueue.splice(jobQueue.indexOf(entry), 1);
+    (reserved ? playbackJobIds : activeJobIds).add(jobId);
+    updateJob(jobId, { status: 'running', startedAt: new Date().toISOString(), queuePosition: null });
+    try {
+      start();
+    } catch (err) {
+      console.error('[jobs] Failed to start job', jobId, err);
+      failJob(jobId, err.message);
+    }
+  }
+  jobQueue.forEach((entry, index) => {
+    if (jobs.get(entry.jobId)?.queuePosition !== index + 1) updateJob(entry.jobId, { queuePosition: index + 1 });
+  });
+}
+
+// Helper function to free a finished job's slot, or drop it from the queue if it never started
+function releaseJobSlot(jobId) {
+  const queueIndex = jobQueue.findIndex(entry => entry.jobId === jobId);
+  if (queueIndex !== -1) jobQueue.splice(queueIndex, 1);
+  activeJobIds.delete(jobId);
+  playbackJobIds.delete(jobId);
+  runQueuedJobs();
+}
+
+// Helper function to change a queued job's priority
+function setJobPriority(jobId, priority) {
+  updateJob(jobId, { priority });
+  sortJobQueue();
+  runQueuedJobs();
+}
+
+// Helper function to check whether the player is currently on this source
+function isWatchedSource(source) {
+  return watchedSourceId === source.id;
+}
+
+// Helper function to remember which source the player is on and move its queued work to the front
+function watchSource(source) {
+  if (watchedSourceId === source.id) return;
+  watchedSourceId = source.id;
+  jobQueue
+    .filter(entry => jobs.get(entry.jobId)?.source.id === source.id)
+    .forEach(entry => updateJob(entry.jobId, { priority: 'high' }));
+  sortJobQueue();
+  runQueuedJobs();
+}
+
+// Helper function to shape a job record for API responses (server paths stay internal).
+// The ETA extrapolates the current attempt's rate, so it restarts when an encoder falls back
+function describeJob(job) {
+  const { outputPath, ...record } = job;
+  const now = Date.now();
+  const end = job.finishedAt ? Date.parse(job.finishedAt) : now;
+
+  let etaMs = null;
+  if (job.status === 'running' && job.progress > 0) {
+    const elapsed = now - Date.parse(job.attemptStartedAt || job.startedAt);
+    etaMs = Math.round(elapsed * (100 - job.progress) / job.progress);
+  }
+  const durationMs = job.startedAt ? end - Date.parse(job.startedAt) : null;
+  return { ...record, durationMs, etaMs };
+}
+
+// Helper function to sniff the container from its first bytes, falling back to the extension
+function detectContentType(filePath) {
+  try {
+    const header = Buffer.alloc(4096);
+    const fd = fs.openSync(filePath, 'r');
+    const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+    fs.closeSync(fd);
+    if (bytesRead >= 12) {
+      const match = CONTAINER_SIGNATURES.find(sig => sig.test(header.subarray(0, bytesRead)));
+      if (match) return match.type;
+    }
+  } catch (err) {
+    console.error('[stream] Could not read header of', filePath, err.message);
+  }
+  return VIDEO_CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+// Progress polling endpoint
+app.get('/progress/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Unknown job' });
+  res.json(describeJob(job));
+});
+
+/**
+ * GET /jobs
+ * Lists known jobs, newest first. Optional ?status=queued|running|completed|failed|cancelled filter.
+ */
+app.get('/jobs', (req, res) => {
+  const { status } = req.query;
+  const list = [...jobs.values()]
+    .filter(job => !status || job.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(describeJob);
+  res.json({ jobs: list });
+});
+
+/**
+ * GET /jobs/:id
+ * Full record of one job: type, source, encoder(s) tried, timings and error.
+ */
+app.get('/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Unknown job' });
+  res.json(describeJob(job));
+});
+
+/**
+ * GET /jobs/:id/events
+ * Server-Sent Events stream of a job. Sends the current state first, then
+ * `progress` (including queue position changes), `encoder` (fallback to the next encoder), `completed`, `failed`
+ * or `cancelled` events, each carrying the job record. Closes once the job finishes.
+ */
+app.get('/jobs/:id/events', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Unknown job' });
+
+  // Someone is waiting on this job, so its source is the one being watched
+  if (sources.has(job.source.id)) watchSource(sources.get(job.source.id));
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const send = (event, record) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(describeJob(record))}\n\n`);
+  };
+
+  if (FINISHED_JOB_STATUSES.includes(job.status)) {
+    send(job.status, job);
+    return res.end();
+  }
+  send('progress', job);
+
+  // Comments keep proxies and idle timeouts from dropping a quiet stream
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  const listener = (event, record) => {
+    send(event, record);
+    if (FINISHED_JOB_STATUSES.includes(record.status)) {
+      stop();
+      res.end();
+    }
+  };
+  const stop = () => {
+    clearInterval(heartbeat);
+    jobEvents.off(job.id, listener);
+  };
+
+  jobEvents.on(job.id, listener);
+  req.on('close', stop);
+});
+
+/**
+ * PATCH /jobs/:id
+ * Changes the priority ('high' | 'normal') of a queued job.
+ */
+app.patch('/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Unknown job' });
+
+  const { priority } = req.body || {};
+  if (!JOB_PRIORITIES.includes(priority)) {
+    return res.status(400).json({ error: `Priority must be one of: ${JOB_PRIORITIES.join(', ')}` });
+  }
+  if (job.status !== 'queued') {
+    return res.status(409).json({ error: `Job is ${job.status}, only queued jobs can be reprioritized` });
+  }
 
-const uploadsDir = path.join(basePath, 'uploads');
-const outputsDir = path.join(basePath, 'outputs');
+  setJobPriority(job.id, priority);
+  res.json(describeJob(jobs.get(job.id)));
+});
 
-ensureDir(uploadsDir);
-ensureDir(outputsDir);
+/**
+ * DELETE /jobs/:id
+ * Cancels a queued or running job (kills its ffmpeg process and removes the partial output).
+ * Finished jobs are removed from the history instead.
+ */
+app.delete('/jobs/:id', (req, res) => {
+  const job = jobs.get(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Unknown job' });
 
-const upload = multer({ dest: uploadsDir });
+  if (!FINISHED_JOB_STATUSES.includes(job.status)) {
+    cancelJob(job.id);
+    return res.json(describeJob(jobs.get(job.id)));
+  }
 
-const app = express();
-app.use(cors());
-app.use(express.json());  // For parsing application/json
-app.use(express.urlencoded({ extended: true }));  // For parsing application/x-www-form-urlencoded
-app.use('/media', express.static(outputsDir));
+  jobs.delete(job.id);
+  scheduleJobsSave();
+  res.json({ id: job.id, deleted: true });
+});
 
 /**
- * POST /api/upload
- * Accepts multipart/form-data with "video" field.
- * 1. Stores the original video in uploads/
- * 2. Spawns ffmpeg to downscale to 240p (keeping FPS) – saved in outputs/
- * 3. Uses ffprobe to gather audio/subtitle track metadata
- * 4. Responds with JSON containing URLs for original & ambient, plus track info
+ * GET /cache
+ * Lists cache entries (derived assets grouped by source fingerprint), most recently used first,
+ * with their sizes, total usage and the size cap.
  */
-app.post('/video/upload-local', upload.single('video'), async (req, res) => {
-  if (!req.file) {
-    return res.status(400).json({ error: 'No video file provided' });
+app.get('/cache', (req, res) => {
+  const entries = Object.keys(cacheManifest.entries)
+    .map(describeCacheEntry)
+    .sort((a, b) => b.lastAccessedAt.localeCompare(a.lastAccessedAt));
+  res.json({
+    totalBytes: entries.reduce((total, entry) => total + entry.bytes, 0),
+    limitBytes: cacheLimitBytes(),
+    entries,
+  });
+});
+
+/**
+ * PATCH /cache
+ * Changes the size cap. Body: { limitBytes } (null restores the default). Evicts immediately if needed.
+ */
+app.patch('/cache', (req, res) => {
+  const { limitBytes } = req.body || {};
+  if (limitBytes !== null && !(Number.isInteger(limitBytes) && limitBytes > 0)) {
+    return res.status(400).json({ error: 'limitBytes must be a positive integer or null' });
   }
 
-  const id = uuidv4();
-  const useFfmpeg = req.query.useFfmpeg !== 'false'; // default true
-  const jobId = uuidv4();
-  const tempUploadPath = req.file.path;
+  if (limitBytes === null) delete cacheManifest.limitBytes;
+  else cacheManifest.limitBytes = limitBytes;
+  saveManifest();
+  enforceCacheLimit();
+  res.json({ limitBytes: cacheLimitBytes() });
+});
 
-  // Use sanitized original filename as cache key
-  const baseName = path.parse(req.file.originalname).name.replace(/[^a-zA-Z0-9_-]/g, '_');
-  const ext = path.extname(req.file.originalname) || '.mp4';
-  const originalFilename = `${baseName}${ext}`;
-  const originalPath = path.join(outputsDir, originalFilename);
+/**
+ * DELETE /cache/:key
+ * Deletes the derived assets of one source. Refused while the entry is in use.
+ */
+app.delete('/cache/:key', (req, res) => {
+  const { key } = req.params;
+  if (!cacheManifest.entries[key]) return res.status(404).json({ error: 'Unknown cache entry' });
+  if (isCacheEntryInUse(key)) {
+    return res.status(409).json({ error: 'Cache entry is in use by a running job or the player' });
+  }
+  res.json({ key, freedBytes: removeCacheEntry(key) });
+});
 
-  let ambientFilename = null;
+/**
+ * DELETE /cache
+ * Clears every cache entry that isn't in use.
+ */
+app.delete('/cache', (req, res) => {
+  const keys = Object.keys(cacheManifest.entries).filter(key => !isCacheEntryInUse(key));
+  const freedBytes = keys.reduce((total, key) => total + removeCacheEntry(key), 0);
+  res.json({ removed: keys.length, kept: Object.keys(cacheManifest.entries).length, freedBytes });
+});
 
-  if (useFfmpeg) {
-    ambientFilename = `${baseName}-ambient.mp4`;
-    const ambientPath = path.join(outputsDir, ambientFilename);
+/**
+ * GET /media-info/:source
+ * Full technical description of a registered source: container, per-stream codec details,
+ * resolution, frame rate, color/HDR info, bitrates, tags, chapters and file size.
+ */
+app.get('/media-info/:source', (req, res) => {
+  const source = sources.get(req.params.source);
+  if (!source || (!source.remote && !fs.existsSync(source.path))) {
+    return res.status(404).json({ error: 'Source not found' });
+  }
 
-    // If ambient already exists, skip transcoding
-    if (!fs.existsSync(ambientPath)) {
-      jobs.set(jobId, { progress: 0, ready: false, videoUrl: `/media/${originalFilename}` });
-      
-      // Try to use hardware encoding with appropriate fallbacks
-      // Try hardware encoders first, then fall back to software if needed
-      const encoders = [
-        { name: 'h264_amf', options: ['-quality', 'speed', '-cq', '23'] },  // AMD (fastest)
-        { name: 'h264_nvenc', options: ['-preset', 'p4', '-cq', '23'] },    // NVIDIA
-        { name: 'h264_qsv', options: ['-preset', 'fast', '-q', '23'] },     // Intel
-        { name: 'libx264', options: ['-preset', 'fast', '-crf', '23'] }     // Software (fallback)
-      ];
-      
-      // Try encoders in sequence
-      let encoderIndex = 0;
-      
-      const tryNextEncoder = () => {
-        try {
-          if (encoderIndex >= encoders.length) {
-            console.error('[ffmpeg] All encoders failed');
-            jobs.delete(jobId);
-            return;
-          }
-          
-          const encoderConfig = encoders[encoderIndex++];
-          console.log(`[ffmpeg] Trying encoder ${encoderIndex}/${encoders.length}: ${encoderConfig.name}`);
-          
-          // Extract metadata first to get inputDuration
-          ffmpeg.ffprobe(originalPath, (err, data) => {
-            let localInputDuration = 0;
-            let localAudioTracks = [];
-            let localSubtitles = [];
-            
-            if (!err && data && data.streams) {
-              data.streams.forEach((stream) => {
-                if (stream.codec_type === 'audio') {
-                  localAudioTracks.push({
-                    index: stream.index,
-                    channels: stream.channels,
-                    codec: stream.codec_name,
-                    language: stream.tags?.language || 'und',
-                  });
-                } else if (stream.codec_type === 'subtitle') {
-                  localSubtitles.push({
-                    index: stream.index,
-                    codec: stream.codec_name,
-                    language: stream.tags?.language || 'und',
-                  });
-                }
-              });
-              if (data.format && data.format.duration) {
-                localInputDuration = data.format.duration;
-              }
-            }
-            
-            // Create FFmpeg command after we have duration
-            const cmd = createFFmpegCommand(originalPath, ambientPath, encoderConfig, jobId, localInputDuration);
-            
-            // If command creation failed, try next encoder
-            if (!cmd) {
-              console.log(`[ffmpeg] Failed to create command with encoder ${encoderConfig.name}, trying next`);
-              tryNextEncoder();
-              return;
-            }
-            
-            cmd.on('end', () => {
-              clearTimeout(killTimer);
-              console.log('[ffmpeg] ambient ready:', ambientFilename);
-
-              const entry = jobs.get(jobId);
-              if (entry) {
-                entry.progress = 100;
-                entry.ready = true;
-                entry.ambientUrl = `/media/${ambientFilename}`;
-              }
-            })
-            .on('error', err => {
-              clearTimeout(killTimer);
-              console.error(`[ffmpeg] Error with encoder ${encoderConfig.name}:`, err);
-              
-              // Try next encoder
-              tryNextEncoder();
-            })
-            .save(ambientPath);
-            
-            // Fail-safe: kill after 10 min
-            const killTimer = setTimeout(() => {
-              console.error('[ffmpeg] timeout – killing process for', ambientFilename);
-              try {
-                cmd.kill('SIGKILL');
-              } catch (err) {
-                console.error('[ffmpeg] Error killing process:', err);
-              }
-              if (fs.existsSync(ambientPath)) fs.unlinkSync(ambientPath);
-              
-              // Try next encoder
-              tryNextEncoder();
-            }, 10 * 60 * 1000);
-          });
-        } catch (err) {
-          console.error('[ffmpeg] Unexpected error in tryNextEncoder:', err);
-          // Try next encoder
-          setTimeout(tryNextEncoder, 1000);
-        }
-      };
-      
-      // Start trying encoders
-      let killTimer;
-      tryNextEncoder();
-    } else {
-      console.log('[ffmpeg] Reusing cached ambient for', ambientFilename);
-      jobs.set(jobId, { progress: 100, ready: true, videoUrl: `/media/${originalFilename}`, ambientUrl: `/media/${ambientFilename}` });
+  ffmpeg.ffprobe(source.path, ['-show_chapters'], (err, data) => {
+    if (err) {
+      console.error('[ffmpeg] Media info probe failed:', err.message);
+      return res.status(422).json({ error: 'Failed to read media info: ' + err.message });
     }
-  }
+    res.json(describeMedia(source, data));
+  });
+});
+
+/**
+ * GET /subtitles/:source/:index
+ * Converts a text subtitle stream of a registered source to WebVTT.
+ * The result is cached next to the ambient file as <cacheKey>-sub<index>.vtt
+ */
+app.get('/subtitles/:source/:index', async (req, res) => {
+  const source = sources.get(req.params.source);
+  const streamIndex = parseInt(req.params.index, 10);
 
-  // Ensure original file exists in cache directory
-  if (!fs.existsSync(originalPath)) {
-    fs.copyFileSync(tempUploadPath, originalPath);
+  if (Number.isNaN(streamIndex) || streamIndex < 0) {
+    return res.status(400).json({ error: 'Invalid stream index' });
+  }
+  if (!source || (!source.remote && !fs.existsSync(source.path))) {
+    return res.status(404).json({ error: 'Source not found' });
   }
-  originalsForCleanup.add(originalPath);
-  // Remove temp upload regardless (free disk)
-  fs.unlinkSync(tempUploadPath);
 
-  // Probe for track metadata
-  let audioTracks = [];
-  let subtitles = [];
-  let inputDuration = 0;
-  await new Promise((resolve) => {
-    ffmpeg.ffprobe(originalPath, (err, data) => {
-      if (!err && data && data.streams) {
-        data.streams.forEach((stream) => {
-          if (stream.codec_type === 'audio') {
-            audioTracks.push({
-              index: stream.index,
-              channels: stream.channels,
-              codec: stream.codec_name,
-              language: stream.tags?.language || 'und',
-            });
-          } else if (stream.codec_type === 'subtitle') {
-            subtitles.push({
-              index: stream.index,
-              codec: stream.codec_name,
-              language: stream.tags?.language || 'und',
-            });
-          }
-        });
-        if (data.format && data.format.duration) {
-          inputDuration = data.format.duration;
-        }
+  const asset = `sub${streamIndex}`;
+  const vttPath = path.join(outputsDir, `${source.cacheKey}-${asset}.vtt`);
+
+  try {
+    if (!getCachedAsset(source, asset)) {
+      if (!subtitleConversions.has(vttPath)) {
+        subtitleConversions.set(vttPath, convertSubtitleToVtt(source.path, streamIndex, vttPath)
+          .then(() => recordAsset(source, asset, path.basename(vttPath)))
+          .finally(() => subtitleConversions.delete(vttPath)));
       }
-      resolve();
-    });
-  });
+      await subtitleConversions.get(vttPath);
+    }
+    res.type('text/vtt');
+    res.sendFile(vttPath);
+  } catch (err) {
+    console.error('[ffmpeg] Subtitle conversion failed:', err.message);
+    res.status(422).json({ error: 'Failed to convert subtitle stream: ' + err.message });
+  }
+});
+
+/**
+ * POST /audio/:source/:index
+ * Produces an MP4 rendition of a registered source whose only audio is the given stream.
+ * Video is stream-copied, so this is a fast remux; incompatible audio is transcoded to AAC.
+ * Video the browser cannot decode is served as an HLS rendition instead.
+ * Responds with the same job shape as the upload endpoints (poll /progress/:id until ready).
+ */
+app.post('/audio/:source/:index', (req, res) => {
+  const source = sources.get(req.params.source);
+  const streamIndex = parseInt(req.params.index, 10);
 
-  const readyFlag = !useFfmpeg || (ambientFilename && fs.existsSync(path.join(outputsDir, ambientFilename)));
+  if (Number.isNaN(streamIndex) || streamIndex < 0) {
+    return res.status(400).json({ error: 'Invalid stream index' });
+  }
+  if (!source || (!source.remote && !fs.existsSync(source.path))) {
+    return res.status(404).json({ error: 'Source not found' });
+  }
+
+  const sourcePath = source.path;
+  const asset = `audio${streamIndex}`;
+  const renditionFilename = `${source.cacheKey}-${asset}.mp4`;
+  const renditionPath = path.join(outputsDir, renditionFilename);
+  const videoUrl = `/media/${renditionFilename}`;
+
+  // Only the player asks for renditions, of the file it is on
+  watchSource(source);
 
-  if (!jobs.has(jobId)) {
-    jobs.set(jobId, { progress: readyFlag ? 100 : 0, ready: readyFlag, videoUrl: `/media/${originalFilename}`, ambientUrl: ambientFilename ? `/media/${ambientFilename}` : null });
+  if (getCachedAsset(source, asset)) {
+    console.log('[ffmpeg] Reusing cached audio rendition', renditionFilename);
+    const job = createJob('audio', source, { status: 'completed', progress: 100, ready: true, videoUrl });
+    return res.json({ id: job.id, videoUrl, ready: true });
   }
 
-  res.json({
-    id: jobId,
-    videoUrl: `/media/${originalFilename}`,
-    ambientUrl: ambientFilename ? `/media/${ambientFilename}` : null,
-    ready: readyFlag,
-    audioTracks,
-    subtitles,
+  ffmpeg.ffprobe(sourcePath, (err, data) => {
+    const stream = !err && data?.streams?.find(s => s.index === streamIndex);
+    if (!stream || stream.codec_type !== 'audio') {
+      console.error(`[ffmpeg] Stream ${streamIndex} of ${source.name} is not an audio stream`);
+      return res.status(400).json({ error: 'Not an audio stream' });
+    }
+
+    // Video that needs re-encoding is streamed as HLS rather than waiting for a full transcode
+    const plan = planPlayback(data, streamIndex);
+    if (!plan.videoPlayable) {
+      return startHlsJob(source, `${asset}-hls`, plan, data.format?.duration || 0).firstSegment
+        .then(jobId => res.json({ id: jobId, videoUrl: jobs.get(jobId).videoUrl, ready: true }))
+        .catch(err => res.status(500).json({ error: 'Failed to prepare audio rendition: ' + err.message }));
+    }
+
+    const runningJobId = audioRenditionJobs.get(renditionPath);
+    if (runningJobId && !FINISHED_JOB_STATUSES.includes(jobs.get(runningJobId)?.status)) {
+      return res.json({ id: runningJobId, videoUrl, ready: false });
+    }
+
+    // Write to a temp file first so a failed run never leaves a truncated cache entry
+    const tempPath = `${renditionPath}.part`;
+    const jobId = createJob('audio', source, { videoUrl, outputPath: tempPath }).id;
+    audioRenditionJobs.set(renditionPath, jobId);
+
+    // The player is blocked on it, so it starts without waiting for a slot
+    enqueueJob(jobId, 'high', () => {
+      const cmd = ffmpeg(sourcePath)
+        .outputOptions([
+          '-map', '0:v:0',
+          '-map', `0:${streamIndex}`,
+          '-c:v', 'copy',
+          ...(MP4_AUDIO_CODECS.includes(stream.codec_name) ? ['-c:a', 'copy'] : ['-c:a', 'aac', '-b:a', '192k']),
+          '-movflags', 'faststart'
+        ])
+        .format('mp4')
+        .on('start', cmd => console.log('[ffmpeg]', cmd))
+        .on('end', () => {
+          fs.renameSync(tempPath, renditionPath);
+          console.log('[ffmpeg] audio rendition ready:', renditionFilename);
+          recordAsset(source, asset, renditionFilename);
+          audioRenditionJobs.delete(renditionPath);
+          jobProcesses.delete(jobId);
+          completeJob(jobId);
+        })
+        .on('error', err => {
+          console.error('[ffmpeg] Audio rendition failed:', err.message);
+          if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+          audioRenditionJobs.delete(renditionPath);
+          jobProcesses.delete(jobId);
+          failJob(jobId, err.message);
+        });
+
+      trackProgress(cmd, jobId, data.format?.duration || 0);
+      cmd.save(tempPath);
+      jobProcesses.set(jobId, { command: cmd });
+    }, () => audioRenditionJobs.delete(renditionPath), { playback: true });
+
+    res.json({ id: jobId, videoUrl, ready: false });
   });
 });
 
-// Handle file uploads from Electron
-app.post('/video/upload-electron', (req, res) => {
-  console.log("Received Electron upload request:", req.body);
-  
-  const filePath = req.body?.filePath;
-  const useFfmpeg = req.body?.useFfmpeg !== false; // default to true
-  
-  console.log(`FFmpeg processing: ${useFfmpeg ? 'enabled' : 'disabled'}`);
-  
-  if (!filePath) {
-    console.error("No file path provided");
-    return res.status(400).json({ error: 'No file path provided' });
+/**
+ * POST /clips/:source
+ * Exports the range { start, end } (seconds) of a registered source as { format }: mp4, webm, gif or webp.
+ * MP4/WebM are stream-copied when the start is on a keyframe and the codecs fit the container,
+ * and re-encoded otherwise. Exports are cached as <cacheKey>-clip-<startMs>-<endMs>.<format>.
+ * Responds with { id, url, ready }; follow /jobs/:id/events until the job completes.
+ */
+app.post('/clips/:source', (req, res) => {
+  const source = sources.get(req.params.source);
+  const start = Number(req.body?.start);
+  const end = Number(req.body?.end);
+  const format = req.body?.format || 'mp4';
+
+  if (!CLIP_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of: ${CLIP_FORMATS.join(', ')}` });
+  }
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+    return res.status(400).json({ error: 'start and end must be times in seconds with start < end' });
+  }
+  if ((format === 'gif' || format === 'webp') && end - start > MAX_IMAGE_CLIP_LENGTH) {
+    return res.status(400).json({ error: `Animated ${format} clips are limited to ${MAX_IMAGE_CLIP_LENGTH} seconds` });
+  }
+  if (!source || (!source.remote && !fs.existsSync(source.path))) {
+    return res.status(404).json({ error: 'Source not found' });
   }
 
-  try {
-    // Check if the file exists
-    if (!fs.existsSync(filePath)) {
-      console.error(`File not found: ${filePath}`);
-      return res.status(404).json({ error: 'File not found' });
+  const asset = `clip-${Math.round(start * 1000)}-${Math.round(end * 1000)}`;
+  const clipFilename = `${source.cacheKey}-${asset}.${format}`;
+  const clipPath = path.join(outputsDir, clipFilename);
+  const url = `/media/${clipFilename}`;
+
+  if (getCachedAsset(source, `${asset}-${format}`)) {
+    const job = createJob('clip', source, { status: 'completed', progress: 100, ready: true });
+    return res.json({ id: job.id, url, ready: true });
+  }
+
+  const runningJobId = clipJobs.get(clipPath);
+  if (runningJobId && !FINISHED_JOB_STATUSES.includes(jobs.get(runningJobId)?.status)) {
+    return res.json({ id: runningJobId, url, ready: false });
+  }
+
+  ffmpeg.ffprobe(source.path, async (err, data) => {
+    const video = !err && data?.streams?.find(s => s.codec_type === 'video');
+    if (!video) {
+      return res.status(422).json({ error: 'Source has no video stream to export' });
+    }
+    const audio = data.streams.find(s => s.codec_type === 'audio');
+    const clipEnd = Math.min(end, parseFloat(data.format?.duration) || end);
+    if (clipEnd <= start) {
+      return res.status(400).json({ error: 'start is past the end of the video' });
     }
 
-    const jobId = uuidv4();
-    const fileName = path.basename(filePath);
-    const baseName = path.parse(fileName).name.replace(/[^a-zA-Z0-9_-]/g, '_');
-    const ext = path.extname(fileName) || '.mp4';
-    const originalFilename = `${baseName}${ext}`;
-    const originalPath = path.join(outputsDir, originalFilename);
+    const copyable = format === 'mp4'
+      ? MP4_VIDEO_CODECS.includes(video.codec_name) && (!audio || MP4_AUDIO_CODECS.includes(audio.codec_name))
+      : format === 'webm' && WEBM_VIDEO_CODECS.includes(video.codec_name) && (!audio || WEBM_AUDIO_CODECS.includes(audio.codec_name));
+    const streamCopy = copyable && await isKeyframeAligned(source.path, start);
 
-    console.log(`Processing file: ${filePath} -> ${originalPath}`);
-    
-    // Copy the file to our outputs directory
-    fs.copyFileSync(filePath, originalPath);
-
-    // Process the file similar to upload-local endpoint
-    let audioTracks = [];
-    let subtitles = [];
-    let ambientFilename = null;
-    let inputDuration = 0;
-    
-    // If FFmpeg is enabled, create ambient version
-    if (useFfmpeg) {
-      ambientFilename = `${baseName}-ambient.mp4`;
-      const ambientPath = path.join(outputsDir, ambientFilename);
-      
-      // If ambient already exists, skip transcoding
-      if (!fs.existsSync(ambientPath)) {
-        console.log(`Creating ambient version: ${ambientPath}`);
-        jobs.set(jobId, { progress: 0, ready: false, videoUrl: `/media/${originalFilename}` });
-        
-        // Try to use hardware encoding with appropriate fallbacks
-        // Try hardware encoders first, then fall back to software if needed
-        const encoders = [
-          { name: 'h264_amf', options: ['-quality', 'speed', '-cq', '23'] },  // AMD (fastest)
-          { name: 'h264_nvenc', options: ['-preset', 'p4', '-cq', '23'] },    // NVIDIA
-          { name: 'h264_qsv', options: ['-preset', 'fast', '-q', '23'] },     // Intel
-          { name: 'libx264', options: ['-preset', 'fast', '-crf', '23'] }     // Software (fallback)
-        ];
-        
-        // Try encoders in sequence
-        let encoderIndex = 0;
-        
-        const tryNextEncoder = () => {
-          try {
-            if (encoderIndex >= encoders.length) {
-              console.error('[ffmpeg] All encoders failed');
-              jobs.delete(jobId);
-              return;
-            }
-            
-            const encoderConfig = encoders[encoderIndex++];
-            console.log(`[ffmpeg] Trying encoder ${encoderIndex}/${encoders.length}: ${encoderConfig.name}`);
-            
-            // Extract metadata first to get inputDuration
-            ffmpeg.ffprobe(originalPath, (err, data) => {
-              let localInputDuration = 0;
-              let localAudioTracks = [];
-              let localSubtitles = [];
-              
-              if (!err && data && data.streams) {
-                data.streams.forEach((stream) => {
-                  if (stream.codec_type === 'audio') {
-                    localAudioTracks.push({
-                      index: stream.index,
-                      channels: stream.channels,
-                      codec: stream.codec_name,
-                      language: stream.tags?.language || 'und',
-                    });
-                  } else if (stream.codec_type === 'subtitle') {
-                    localSubtitles.push({
-                      index: stream.index,
-                      codec: stream.codec_name,
-                      language: stream.tags?.language || 'und',
-                    });
-                  }
-                });
-                if (data.format && data.format.duration) {
-                  localInputDuration = data.format.duration;
-                }
-              }
-              
-              // Update audioTracks and subtitles
-              audioTracks = localAudioTracks;
-              subtitles = localSubtitles;
-              
-              // Create FFmpeg command after we have duration
-              const cmd = createFFmpegCommand(originalPath, ambientPath, encoderConfig, jobId, localInputDuration);
-              
-              // If command creation failed, try next encoder
-              if (!cmd) {
-                console.log(`[ffmpeg] Failed to create command with encoder ${encoderConfig.name}, trying next`);
-                tryNextEncoder();
-                return;
-              }
-              
-              cmd.on('end', () => {
-                clearTimeout(killTimer);
-                console.log('[ffmpeg] ambient ready:', ambientFilename);
-
-                const entry = jobs.get(jobId);
-                if (entry) {
-                  entry.progress = 100;
-                  entry.ready = true;
-                  entry.ambientUrl = `/media/${ambientFilename}`;
-                }
-              })
-              .on('error', err => {
-                clearTimeout(killTimer);
-                console.error(`[ffmpeg] Error with encoder ${encoderConfig.name}:`, err);
-                
-                // Try next encoder
-                tryNextEncoder();
-              })
-              .save(ambientPath);
-              
-              // Fail-safe: kill after 10 min
-              killTimer = setTimeout(() => {
-                console.error('[ffmpeg] timeout – killing process for', ambientFilename);
-                try {
-                  cmd.kill('SIGKILL');
-                } catch (err) {
-                  console.error('[ffmpeg] Error killing process:', err);
-                }
-                if (fs.existsSync(ambientPath)) fs.unlinkSync(ambientPath);
-                
-                // Try next encoder
-                tryNextEncoder();
-              }, 10 * 60 * 1000);
-            });
-          } catch (err) {
-            console.error('[ffmpeg] Unexpected error in tryNextEncoder:', err);
-            // Try next encoder
-            setTimeout(tryNextEncoder, 1000);
-          }
-        };
-        
-        // Extract metadata and respond immediately
-        extractMetadata(originalPath, (audioTracksData, subtitlesData, duration) => {
-          audioTracks = audioTracksData;
-          subtitles = subtitlesData;
-          inputDuration = duration;
-          
-          // Start trying encoders
-          let killTimer;
-          tryNextEncoder();
-          
-          res.json({
-            id: jobId,
-            videoUrl: `/media/${originalFilename}`,
-            ambientUrl: `/media/${ambientFilename}`,
-            ready: false,
-            audioTracks,
-            subtitles
-          });
-        });
-        return;
-      } else {
-        console.log('[ffmpeg] Reusing cached ambient for', ambientFilename);
-        jobs.set(jobId, { 
-          progress: 100, 
-          ready: true, 
-          videoUrl: `/media/${originalFilename}`, 
-          ambientUrl: `/media/${ambientFilename}` 
+    // Write to a temp file first so a failed run never leaves a truncated cache entry
+    const tempPath = `${clipPath}.part`;
+    const jobId = createJob('clip', source, { outputPath: tempPath, streamCopy }).id;
+    clipJobs.set(clipPath, jobId);
+
+    // Requested from the player, so it runs ahead of background work
+    enqueueJob(jobId, 'high', () => {
+      const cmd = ffmpeg(source.path)
+        .inputOptions(['-ss', String(start)])
+        .outputOptions(['-t', String(clipEnd - start), ...clipOutputOptions(format, streamCopy)])
+        .format(format)
+        .on('start', cmd => console.log('[ffmpeg]', cmd))
+        .on('end', () => {
+          fs.renameSync(tempPath, clipPath);
+          console.log(`[ffmpeg] clip ready (${streamCopy ? 'stream copy' : 're-encoded'}):`, clipFilename);
+          recordAsset(source, `${asset}-${format}`, clipFilename);
+          clipJobs.delete(clipPath);
+          jobProcesses.delete(jobId);
+          completeJob(jobId);
+        })
+        .on('error', err => {
+          console.error('[ffmpeg] Clip export failed:', err.message);
+          if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+          clipJobs.delete(clipPath);
+          jobProcesses.delete(jobId);
+          failJob(jobId, err.message);
         });
-      }
-    }
 
-    // Extract metadata using FFmpeg
-    extractMetadata(originalPath, (audioTracks, subtitles, duration) => {
-      res.json({
-        id: jobId,
-        videoUrl: `/media/${originalFilename}`,
-        ambientUrl: ambientFilename ? `/media/${ambientFilename}` : null,
-        ready: true,
-        audioTracks,
-        subtitles
-      });
-      
-      console.log(`Successfully processed file: ${filePath}`);
-    });
-  } catch (error) {
-    console.error('Error processing file:', error);
-    res.status(500).json({ error: 'Failed to process file: ' + error.message });
+      trackProgress(cmd, jobId, clipEnd - start);
+      cmd.save(tempPath);
+      jobProcesses.set(jobId, { command: cmd });
+    }, () => clipJobs.delete(clipPath));
+
+    res.json({ id: jobId, url, ready: false });
+  });
+});
+
+/**
+ * GET /frames/:source?time=<seconds>&format=png|jpeg
+ * Grabs the frame shown at `time` at the source's native resolution, for screenshots the player
+ * can't take itself (cross-origin streams, or HLS renditions smaller than the original).
+ */
+app.get('/frames/:source', (req, res) => {
+  const source = sources.get(req.params.source);
+  const time = Number(req.query.time);
+  const format = req.query.format || 'png';
+
+  if (!FRAME_ENCODERS[format]) {
+    return res.status(400).json({ error: `format must be one of: ${Object.keys(FRAME_ENCODERS).join(', ')}` });
   }
+  if (!Number.isFinite(time) || time < 0) {
+    return res.status(400).json({ error: 'time must be a position in seconds' });
+  }
+  if (!source || (!source.remote && !fs.existsSync(source.path))) {
+    return res.status(404).json({ error: 'Source not found' });
+  }
+
+  // Input seeking decodes up to the exact timestamp, so this is the frame the player showed
+  const cmd = ffmpeg(source.path)
+    .inputOptions(['-ss', String(time)])
+    .outputOptions([
+      '-map', '0:v:0',
+      '-frames:v', '1',
+      ...(format === 'jpeg' ? ['-q:v', '2', '-pix_fmt', 'yuvj420p'] : []),
+    ])
+    .videoCodec(FRAME_ENCODERS[format])
+    .format('image2pipe')
+    .on('start', cmd => console.log('[ffmpeg]', cmd))
+    .on('error', err => {
+      console.error('[ffmpeg] Frame grab failed:', err.message);
+      if (!res.headersSent) res.status(422).json({ error: 'Failed to grab frame: ' + err.message });
+      else res.end();
+    });
+
+  // Stop decoding when the client gives up
+  res.on('close', () => cmd.kill('SIGKILL'));
+  res.type(format === 'png' ? 'image/png' : 'image/jpeg');
+  cmd.pipe(res, { end: true });
 });
 
-// Helper function to extract metadata
-function extractMetadata(filePath, callback) {
-  let audioTracks = [];
-  let subtitles = [];
-  let inputDuration = 0;
-  
-  ffmpeg.ffprobe(filePath, (err, data) => {
-    if (!err && data && data.streams) {
-      data.streams.forEach((stream) => {
-        if (stream.codec_type === 'audio') {
-          audioTracks.push({
-            index: stream.index,
-            channels: stream.channels,
-            codec: stream.codec_name,
-            language: stream.tags?.language || 'und',
-          });
-        } else if (stream.codec_type === 'subtitle') {
-          subtitles.push({
-            index: stream.index,
-            codec: stream.codec_name,
-            language: stream.tags?.language || 'und',
-          });
-        }
+// Helper function to pick the ffmpeg output options for a clip export
+function clipOutputOptions(format, streamCopy) {
+  const imageFilter = `fps=${CLIP_IMAGE_FPS},scale=${CLIP_IMAGE_WIDTH}:-2:flags=lanczos`;
+  switch (format) {
+    case 'gif':
+      // A palette generated from the clip itself keeps GIF banding down
+      return ['-an', '-vf', `${imageFilter},split[a][b];[a]palettegen[p];[b][p]paletteuse`, '-loop', '0'];
+    case 'webp':
+      return ['-an', '-vf', imageFilter, '-c:v', 'libwebp', '-quality', '75', '-loop', '0'];
+    case 'webm':
+      return streamCopy
+        ? ['-map', '0:v:0', '-map', '0:a:0?', '-c', 'copy', '-avoid_negative_ts', 'make_zero']
+        : ['-map', '0:v:0', '-map', '0:a:0?', '-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-deadline', 'good', '-cpu-used', '4', '-row-mt', '1', '-c:a', 'libopus', '-b:a', '128k'];
+    default:
+      return streamCopy
+        ? ['-map', '0:v:0', '-map', '0:a:0?', '-c', 'copy', '-avoid_negative_ts', 'make_zero', '-movflags', 'faststart']
+        : ['-map', '0:v:0', '-map', '0:a:0?', '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-b:a', '160k', '-movflags', 'faststart'];
+  }
+}
+
+// Helper function to check whether a cut at `time` lands on a keyframe of the first video stream,
+// so the clip can be stream-copied without a frozen or missing start. Any probe failure means no
+function isKeyframeAligned(filePath, time) {
+  if (time === 0) return Promise.resolve(true);
+
+  return new Promise((resolve) => {
+    ffmpeg()._getFfprobePath((err, ffprobePath) => {
+      if (err || !ffprobePath) return resolve(false);
+      execFile(ffprobePath, [
+        '-v', 'error',
+        '-select_streams', 'v:0',
+        '-skip_frame', 'nokey',
+        '-show_entries', 'frame=pts_time',
+        '-of', 'csv=p=0',
+        '-read_intervals', `${Math.max(0, time - 1)}%+2`,
+        filePath,
+      ], (err, stdout) => {
+        if (err) return resolve(false);
+        resolve(stdout.split('\n').some(line => Math.abs(parseFloat(line) - time) <= KEYFRAME_TOLERANCE));
       });
-      if (data.format && data.format.duration) {
-        inputDuration = data.format.duration;
-      }
-    }
-    callback(audioTracks, subtitles, inputDuration);
+    });
   });
 }
 
-// Helper function to create a command with the specified encoder
-function createFFmpegCommand(inputPath, outputPath, encoderConfig, jobId, inputDuration) {
-  const { name: encoder, options: encoderOptions } = encoderConfig;
-  
-  console.log(`[ffmpeg] Trying encoder: ${encoder}`);
-  
-  try {
-    // Create the command with basic options first
-    const cmd = ffmpeg(inputPath)
-      .inputOptions(['-hwaccel', 'auto'])
-      .outputOptions([
-        '-vf', 'scale=-2:144', // 144p
-        '-an', // no audio
-        '-movflags', 'faststart'
-      ]);
-    
-    // Now add the encoder-specific options
-    cmd.outputOptions([
-      '-c:v', encoder,
-      ...encoderOptions
-    ]);
-    
-    // Add event handlers
-    cmd.on('start', cmd => console.log('[ffmpeg]', cmd));
-    
-    cmd.on('progress', p => {
-      const entry = jobs.get(jobId);
-      if (!entry) return;
-      
-      let percent = 0;
-      if (p.percent && !isNaN(p.percent)) {
-        percent = p.percent;
-      } else if (p.timemark && inputDuration) {
-        // timemark format HH:MM:SS.xx
-        const parts = p.timemark.split(':').map(Number);
-        const seconds = parts[0]*3600 + parts[1]*60 + parts[2];
-        percent = (seconds / inputDuration) * 100;
+// Helper function to extract a single text subtitle stream as WebVTT
+function convertSubtitleToVtt(inputPath, streamIndex, outputPath) {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(inputPath, (err, data) => {
+      const stream = !err && data?.streams?.find(s => s.index === streamIndex);
+      if (!stream || stream.codec_type !== 'subtitle') {
+        return reject(new Error(`Stream ${streamIndex} is not a subtitle stream`));
       }
-      
-      entry.progress = Math.min(99, Math.round(percent));
-      jobs.set(jobId, entry);
+      if (!TEXT_SUBTITLE_CODECS.includes(stream.codec_name)) {
+        return reject(new Error(`Unsupported subtitle codec: ${stream.codec_name}`));
+      }
+
+      // Write to a temp file first so a failed run never leaves a truncated cache entry
+      const tempPath = `${outputPath}.part`;
+      ffmpeg(inputPath)
+        .outputOptions(['-map', `0:${streamIndex}`, '-c:s', 'webvtt'])
+        .format('webvtt')
+        .on('start', cmd => console.log('[ffmpeg]', cmd))
+        .on('end', () => {
+          fs.renameSync(tempPath, outputPath);
+          console.log('[ffmpeg] subtitles ready:', path.basename(outputPath));
+          resolve();
+        })
+        .on('error', err => {
+          if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+          reject(err);
+        })
+        .save(tempPath);
     });
-    
-    return cmd;
-  } catch (err) {
-    console.error(`[ffmpeg] Error creating command with encoder ${encoder}:`, err);
-    return null;
-  }
+  });
 }
 
-// Progress polling endpoint
-app.get('/progress/:id', (req, res) => {
-  const job = jobs.get(req.params.id);
-  if (!job) return res.status(404).json({ error: 'Unknown job' });
-  res.json(job);
-});
-
 // FFmpeg test endpoint
 app.get('/test/ffmpeg', (req, res) => {
   console.log('FFmpeg test endpoint called');
@@ -653,5 +2884,89 @@ app.get('/test/ffmpeg', (req, res) => {
   }
 });
 
+/**
+ * GET /encoders
+ * Encoder diagnostics: which H.264 encoders the startup probe found working, the user override
+ * and the encoder ambient jobs will use first.
+ */
+app.get('/encoders', (req, res) => {
+  res.json(describeEncoders());
+});
+
+/**
+ * POST /encoders/probe
+ * Re-runs the capability probe (e.g. after a driver update) and responds with the new diagnostics.
+ */
+app.post('/encoders/probe', async (req, res) => {
+  await detectEncoders(true);
+  res.json(describeEncoders());
+});
+
+/**
+ * PATCH /encoders
+ * Body: { override } — the encoder ambient jobs try first, or null for automatic selection.
+ * Only encoders that passed the probe can be chosen.
+ */
+app.patch('/encoders', (req, res) => {
+  const override = req.body?.override ?? null;
+  if (override !== null && !H264_ENCODERS.some(encoder => encoder.name === override)) {
+    return res.status(400).json({ error: `override must be null or one of: ${H264_ENCODERS.map(encoder => encoder.name).join(', ')}` });
+  }
+  if (override !== null && !encoderCapabilities.encoders.find(result => result.name === override)?.working) {
+    return res.status(409).json({ error: `${override} did not pass the capability probe` });
+  }
+
+  encoderCapabilities.override = override;
+  saveEncoderCapabilities();
+  console.log(`[ffmpeg] Encoder override: ${override || 'automatic'}`);
+  res.json(describeEncoders());
+});
+
+/**
+ * GET /ambient-profiles
+ * The named ambient rendition profiles and the one uploads use when they don't pick one.
+ */
+app.get('/ambient-profiles', (req, res) => {
+  res.json({ selected: settings.ambientProfile, profiles: Object.keys(AMBIENT_PROFILES).map(describeAmbientProfile) });
+});
+
+/**
+ * PATCH /ambient-profiles
+ * Body: { selected } — saves the default profile for later uploads. Renditions that already
+ * exist are kept, so switching back reuses them.
+ */
+app.patch('/ambient-profiles', (req, res) => {
+  const selected = req.body?.selected;
+  if (!AMBIENT_PROFILES[selected]) {
+    return res.status(400).json({ error: `selected must be one of: ${Object.keys(AMBIENT_PROFILES).join(', ')}` });
+  }
+
+  settings.ambientProfile = selected;
+  saveSettings();
+  console.log(`[settings] Ambient profile: ${selected}`);
+  res.json({ selected, profiles: Object.keys(AMBIENT_PROFILES).map(describeAmbientProfile) });
+});
+
+// Upload limits multer and the chunk parser enforce while the request streams in, in the upload error schema
+app.use((err, req, res, next) => {
+  if (err.type === 'entity.too.large' && req.method === 'PATCH') {
+    return sendError(res, 413, 'INVALID_UPLOAD', `Chunks are limited to ${MAX_UPLOAD_CHUNK_BYTES} bytes`);
+  }
+  if (!(err instanceof multer.MulterError)) return next(err);
+  if (err.code === 'LIMIT_FILE_SIZE') {
+    return sendError(res, 413, 'FILE_TOO_LARGE', `Uploads are limited to ${MAX_UPLOAD_BYTES} bytes`, { maxBytes: MAX_UPLOAD_BYTES });
+  }
+  if (err.code === 'LIMIT_UNEXPECTED_FILE' && err.field === 'videos') {
+    return sendError(res, 413, 'TOO_MANY_FILES', `At most ${MAX_BATCH_FILES} videos can be uploaded at once`, { maxFiles: MAX_BATCH_FILES });
+  }
+  sendError(res, 400, 'INVALID_UPLOAD', err.message);
+});
+
 const PORT = process.env.PORT || 4000;
-app.listen(PORT, () => console.log(`FFmpeg media server listening on :${PORT}`));
\ No newline at end of file
+app.listen(PORT, () => {
+  console.log(`FFmpeg media server listening on :${PORT}`);
+  if (!MEDIA_SERVER_TOKEN) console.warn('[security] MEDIA_SERVER_TOKEN is not set, requests are only checked by origin');
+});
+
+// Probe encoders right away so the first upload doesn't wait on failing hardware encoders
+detectEncoders();
\ No newline at end of file
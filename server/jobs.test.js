@@ -0,0 +1,84 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const serverDir = path.dirname(fileURLToPath(import.meta.url));
+const jobsPath = path.join(serverDir, 'data', 'jobs.json');
+const TOKEN = 'test-token';
+
+// What a previous run left behind: one finished job and one cut off by the restart
+const SEEDED_JOBS = [
+  {
+    id: 'seeded-completed',
+    type: 'hls',
+    status: 'completed',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    startedAt: '2024-01-01T00:00:01.000Z',
+    finishedAt: '2024-01-01T00:00:09.000Z',
+  },
+  {
+    id: 'seeded-running',
+    type: 'hls',
+    status: 'running',
+    createdAt: '2024-01-01T00:01:00.000Z',
+    startedAt: '2024-01-01T00:01:01.000Z',
+  },
+];
+
+let server;
+let baseUrl;
+let savedJobs = null;
+
+const freePort = () => new Promise((resolve, reject) => {
+  const probe = net.createServer().listen(0, () => {
+    const { port } = probe.address();
+    probe.close(() => resolve(port));
+  }).on('error', reject);
+});
+
+before(async () => {
+  if (fs.existsSync(jobsPath)) savedJobs = fs.readFileSync(jobsPath);
+  fs.mkdirSync(path.dirname(jobsPath), { recursive: true });
+  fs.writeFileSync(jobsPath, JSON.stringify(SEEDED_JOBS));
+
+  const port = await freePort();
+  baseUrl = `http://localhost:${port}`;
+  server = spawn(process.execPath, [path.join(serverDir, 'index.js')], {
+    env: { ...process.env, PORT: String(port), MEDIA_SERVER_TOKEN: TOKEN },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  await new Promise((resolve, reject) => {
+    server.stdout.on('data', chunk => {
+      if (chunk.toString().includes('listening on')) resolve();
+    });
+    server.once('exit', code => reject(new Error(`Server exited with code ${code}`)));
+  });
+});
+
+after(async () => {
+  // The server saves its registry on exit, so the previous one is only put back once it has stopped
+  if (server && server.exitCode === null) {
+    const exited = new Promise(resolve => server.once('exit', resolve));
+    server.kill();
+    await exited;
+  }
+  if (savedJobs) fs.writeFileSync(jobsPath, savedJobs);
+  else fs.rmSync(jobsPath, { force: true });
+});
+
+describe('job registry', () => {
+  test('lists the jobs of the previous run after a restart', async () => {
+    const res = await fetch(`${baseUrl}/jobs`, { headers: { 'X-Media-Token': TOKEN } });
+    assert.equal(res.status, 200);
+    const { jobs } = await res.json();
+    const byId = new Map(jobs.map(job => [job.id, job]));
+
+    assert.equal(byId.get('seeded-completed')?.status, 'completed');
+    assert.equal(byId.get('seeded-running')?.status, 'failed');
+    assert.equal(byId.get('seeded-running')?.error, 'Interrupted by server restart');
+  });
+});
@@ -0,0 +1,164 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const serverUrl = pathToFileURL(path.join(path.dirname(fileURLToPath(import.meta.url)), 'index.js')).href;
+const TOKEN = 'test-token';
+const ALLOWED_ORIGIN = 'http://localhost:5173';
+
+// Runs the server in a child process the way Electron does: in-process, with paths granted through
+// the media-server:grant-path process event, here relayed from the test over IPC
+const SERVER_HARNESS = `
+process.on('message', filePath => {
+  process.emit('media-server:grant-path', filePath);
+  process.send('granted');
+});
+await import(${JSON.stringify(serverUrl)});
+`;
+
+let server;
+let baseUrl;
+let tempDir;
+
+const freePort = () => new Promise((resolve, reject) => {
+  const probe = net.createServer().listen(0, () => {
+    const { port } = probe.address();
+    probe.close(() => resolve(port));
+  }).on('error', reject);
+});
+
+const grant = filePath => new Promise(resolve => {
+  server.once('message', resolve);
+  server.send(filePath);
+});
+
+const request = (pathname, { token = TOKEN, origin, method = 'GET', body } = {}) => fetch(`${baseUrl}${pathname}`, {
+  method,
+  headers: {
+    ...(token && { 'X-Media-Token': token }),
+    ...(origin && { Origin: origin }),
+    ...(body && { 'Content-Type': 'application/json' }),
+  },
+  body: body && JSON.stringify(body),
+});
+
+before(async () => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'glassplay-security-'));
+  for (const folder of ['picked', 'picked-sibling', 'unpicked']) {
+    fs.mkdirSync(path.join(tempDir, folder));
+    // Not a real video: a request that gets past the checks is answered with NOT_MEDIA
+    fs.writeFileSync(path.join(tempDir, folder, 'clip.mp4'), 'not a video');
+  }
+
+  const port = await freePort();
+  baseUrl = `http://localhost:${port}`;
+  server = spawn(process.execPath, ['--input-type=module', '-e', SERVER_HARNESS], {
+    env: { ...process.env, PORT: String(port), MEDIA_SERVER_TOKEN: TOKEN, MEDIA_SERVER_ORIGINS: ALLOWED_ORIGIN },
+    stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+  });
+  await new Promise((resolve, reject) => {
+    server.stdout.on('data', chunk => {
+      if (chunk.toString().includes('listening on')) resolve();
+    });
+    server.once('exit', code => reject(new Error(`Server exited with code ${code}`)));
+  });
+
+  await grant(path.join(tempDir, 'picked'));
+});
+
+after(() => {
+  server?.kill();
+  if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('media server token', () => {
+  test('rejects a request without X-Media-Token', async () => {
+    const res = await request('/ambient-profiles', { token: null });
+    assert.equal(res.status, 401);
+  });
+
+  test('rejects a request with the wrong X-Media-Token', async () => {
+    const res = await request('/ambient-profiles', { token: 'wrong-token' });
+    assert.equal(res.status, 401);
+  });
+
+  test('rejects a wrong ?token=', async () => {
+    const res = await request('/ambient-profiles?token=wrong-token', { token: null });
+    assert.equal(res.status, 401);
+  });
+
+  test('accepts the launch token', async () => {
+    const res = await request('/ambient-profiles');
+    assert.equal(res.status, 200);
+  });
+});
+
+describe('allowed origins', () => {
+  test('rejects a page on another origin, even with the token', async () => {
+    const res = await request('/ambient-profiles', { origin: 'https://example.com' });
+    assert.equal(res.status, 403);
+  });
+
+  test('rejects the null origin of sandboxed iframes', async () => {
+    const res = await request('/ambient-profiles', { origin: 'null' });
+    assert.equal(res.status, 403);
+  });
+
+  test('accepts the app origin', async () => {
+    const res = await request('/ambient-profiles', { origin: ALLOWED_ORIGIN });
+    assert.equal(res.status, 200);
+  });
+});
+
+describe('picked paths', () => {
+  test('/video/upload-electron refuses a file that was never granted', async () => {
+    const res = await request('/video/upload-electron', {
+      method: 'POST',
+      body: { filePath: path.join(tempDir, 'unpicked', 'clip.mp4') },
+    });
+    assert.equal(res.status, 403);
+    assert.equal((await res.json()).code, 'FILE_NOT_PICKED');
+  });
+
+  test('/video/upload-electron refuses a folder that only shares a granted folder\'s name prefix', async () => {
+    const res = await request('/video/upload-electron', {
+      method: 'POST',
+      body: { filePath: path.join(tempDir, 'picked-sibling', 'clip.mp4') },
+    });
+    assert.equal(res.status, 403);
+    assert.equal((await res.json()).code, 'FILE_NOT_PICKED');
+  });
+
+  test('/video/upload-electron accepts a file inside a granted folder', async () => {
+    const res = await request('/video/upload-electron', {
+      method: 'POST',
+      body: { filePath: path.join(tempDir, 'picked', 'clip.mp4') },
+    });
+    assert.equal(res.status, 422);
+    assert.equal((await res.json()).code, 'NOT_MEDIA');
+  });
+
+  test('/video/batch-electron refuses a batch with any path that was never granted', async () => {
+    const res = await request('/video/batch-electron', {
+      method: 'POST',
+      body: { paths: [path.join(tempDir, 'picked'), path.join(tempDir, 'unpicked')] },
+    });
+    assert.equal(res.status, 403);
+    assert.equal((await res.json()).code, 'FILE_NOT_PICKED');
+  });
+
+  test('/video/batch-electron accepts a granted folder', async () => {
+    const res = await request('/video/batch-electron', {
+      method: 'POST',
+      body: { paths: [path.join(tempDir, 'picked')] },
+    });
+    assert.equal(res.status, 200);
+    const { items } = await res.json();
+    assert.deepEqual(items.map(item => [item.fileName, item.code]), [['clip.mp4', 'NOT_MEDIA']]);
+  });
+});
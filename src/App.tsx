@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react'
 import LandingPage from './components/LandingPage'
 import VideoPlayer from './components/VideoPlayer'
+import StreamPending from './components/StreamPending'
+import { watchJob } from './lib/jobs'
+import { MEDIA_SERVER_ORIGIN } from './lib/mediaServer'
 import type { VideoSubmission } from './types/video'
 
 function App() {
-  const [videoData, setVideoData] = useState<VideoSubmission | null>(null)
+  const [queue, setQueue] = useState<VideoSubmission[]>([])
+  const [queueIndex, setQueueIndex] = useState<number>(0)
+  const [autoPlay, setAutoPlay] = useState<boolean>(false)
   const [isPlaying, setIsPlaying] = useState<boolean>(false)
+  const videoData = queue[queueIndex] ?? null
 
   // TEMPORARILY DISABLED - Enable right-click and inspect for debugging glass effect
   useEffect(() => {
@@ -39,23 +45,74 @@ function App() {
     };
   }, []);
 
+  // Queued videos may have been opened before their ambient rendition finished; pick it up once it does
+  useEffect(() => {
+    const jobId = videoData?.ambientJobId
+    if (!jobId) return
+    const index = queueIndex
+    return watchJob(`${MEDIA_SERVER_ORIGIN}/jobs/${jobId}/events`, (_type, job) => {
+      if (!job.ready) return
+      setQueue(prev => prev.map((item, i) => i !== index ? item : {
+        ...item,
+        ambientUrl: job.ambientUrl ? new URL(job.ambientUrl, MEDIA_SERVER_ORIGIN).href : undefined,
+        ambientJobId: null,
+      }))
+    })
+  }, [videoData?.ambientJobId, queueIndex])
+
   const handleVideoSubmit = (data: VideoSubmission) => {
-    setVideoData(data)
+    handleQueueSubmit([data])
+  }
+
+  const handleQueueSubmit = (items: VideoSubmission[]) => {
+    setQueue(items)
+    setQueueIndex(0)
+    setAutoPlay(false)
     setIsPlaying(true)
   }
 
+  const handleSelectQueueItem = (index: number) => {
+    setQueueIndex(index)
+    setAutoPlay(true)
+  }
+
   return (
     <div className="w-full min-h-screen flex items-center justify-center p-4">
       <div className={`transition-all duration-500 ${!isPlaying ? 'w-full max-w-4xl' : 'w-full'}`}>
         {!isPlaying || !videoData ? (
-          <LandingPage onVideoSubmit={handleVideoSubmit} />
+          <LandingPage onVideoSubmit={handleVideoSubmit} onQueueSubmit={handleQueueSubmit} />
+        ) : videoData.hlsJobId ? (
+          <StreamPending
+            key={queueIndex}
+            jobId={videoData.hlsJobId}
+            fileName={videoData.fileName}
+            onReady={() => setQueue(prev => prev.map((item, i) => i !== queueIndex ? item : { ...item, hlsJobId: null }))}
+            onSkip={queueIndex < queue.length - 1 ? () => handleSelectQueueItem(queueIndex + 1) : undefined}
+            onBack={() => setIsPlaying(false)}
+          />
         ) : (
           <VideoPlayer
+            // A fresh player per queue item, so no state carries over from the previous video
+            key={queueIndex}
             videoSrc={videoData.videoUrl}
             ambientSrc={videoData.ambientUrl}
+            ambientProfile={videoData.ambientProfile}
             audioTracksInfo={videoData.audioTracks}
             subtitleTracksInfo={videoData.subtitles}
+            chapters={videoData.chapters}
+            frameRate={videoData.frameRate}
+            thumbnails={videoData.thumbnails}
+            loudness={videoData.loudness}
+            waveform={videoData.waveform}
+            scenes={videoData.scenes}
+            mediaInfoUrl={videoData.mediaInfoUrl}
+            clipUrl={videoData.clipUrl}
+            frameUrl={videoData.frameUrl}
             videoName={videoData.fileName}
+            queueNames={queue.map(item => item.fileName)}
+            queueIndex={queueIndex}
+            onSelectQueueItem={handleSelectQueueItem}
+            autoPlay={autoPlay}
             onBack={() => setIsPlaying(false)}
           />
         )}
@@ -1,10 +1,18 @@
 import React from 'react';
+import type { Loudness } from '../types/video';
 
 interface AudioControlsMenuProps {
   bassLevel: number;
   trebleLevel: number;
   vocalsLevel: number;
   onLevelChange: (type: 'bass' | 'treble' | 'vocals', level: number) => void;
+  // Null when the file has no loudness analysis (no server processing or no audio)
+  normalization?: {
+    enabled: boolean;
+    loudness: Loudness | null; // Null while the analysis is still running
+    gainDb: number | null;
+  } | null;
+  onNormalizationToggle?: () => void;
 }
 
 const AudioControlsMenu: React.FC<AudioControlsMenuProps> = ({
@@ -12,6 +20,8 @@ const AudioControlsMenu: React.FC<AudioControlsMenuProps> = ({
   trebleLevel,
   vocalsLevel,
   onLevelChange,
+  normalization,
+  onNormalizationToggle,
 }) => {
   // Define the available levels
   const levels = [-2, -1, 0, 1, 2]; // -2: None, -1: Low, 0: Normal, 1: Medium, 2: High
@@ -31,6 +41,29 @@ const AudioControlsMenu: React.FC<AudioControlsMenuProps> = ({
     <div className="absolute bottom-full right-0 mb-3 settings-menu rounded-xl overflow-hidden w-72 z-50">
       <div className="p-4 glass-effect rounded-2xl overflow-hidden">
         <h3 className="text-sm text-white font-medium mb-3">Audio Controls</h3>
+
+        {/* Loudness normalization */}
+        {normalization && (
+          <div className="mb-4 flex items-center justify-between gap-3">
+            <div>
+              <div className="text-xs text-white/80">Normalize Volume</div>
+              <div className="text-xs text-white/60">
+                {normalization.loudness
+                  ? `${normalization.loudness.integrated.toFixed(1)} LUFS · ${normalization.gainDb! >= 0 ? '+' : ''}${normalization.gainDb!.toFixed(1)} dB`
+                  : 'Analyzing...'}
+              </div>
+            </div>
+            <button
+              onClick={onNormalizationToggle}
+              aria-label="Toggle volume normalization"
+              className={`relative w-10 h-5 rounded-full transition shrink-0 ${normalization.enabled ? 'bg-white/80' : 'bg-white/20'}`}
+            >
+              <span
+                className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-black/80 transition-transform ${normalization.enabled ? 'translate-x-5' : ''}`}
+              />
+            </button>
+          </div>
+        )}
         
         {/* Bass control */}
         <div className="mb-4">
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+import { exportClip, MAX_IMAGE_CLIP_LENGTH } from '../lib/clips';
+import { saveFile } from '../lib/files';
+import type { ClipFormat } from '../lib/clips';
+
+interface ClipExportPanelProps {
+  clipUrl: string; // Media server export endpoint for this video
+  videoName: string;
+  clipIn: number | null;
+  clipOut: number | null;
+  onSetIn: () => void;
+  onSetOut: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formats: Array<{ value: ClipFormat; label: string }> = [
+  { value: 'mp4', label: 'MP4' },
+  { value: 'webm', label: 'WebM' },
+  { value: 'gif', label: 'GIF' },
+  { value: 'webp', label: 'WebP' },
+];
+
+// m:ss.t, precise enough to tell cuts apart
+const formatClipTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1);
+  return `${minutes}:${secs.padStart(4, '0')}`;
+};
+
+// "movie.mkv" exported from 1:02.5 to 1:10.0 as gif -> "movie 1-02.5-1-10.0.gif"
+const clipFileName = (videoName: string, start: number, end: number, format: ClipFormat) => {
+  const base = videoName.replace(/\.[^.]+$/, '');
+  const stamp = (time: number) => formatClipTime(time).replace(':', '-');
+  return `${base} ${stamp(start)}-${stamp(end)}.${format}`;
+};
+
+const ClipExportPanel: React.FC<ClipExportPanelProps> = ({
+  clipUrl,
+  videoName,
+  clipIn,
+  clipOut,
+  onSetIn,
+  onSetOut,
+  onClear,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ClipFormat>('mp4');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [exportedUrl, setExportedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A finished export no longer matches once the range or format changes
+  useEffect(() => {
+    setExportedUrl(null);
+    setError(null);
+  }, [clipIn, clipOut, format]);
+
+  const hasRange = clipIn !== null && clipOut !== null && clipOut > clipIn;
+  const length = hasRange ? clipOut! - clipIn! : 0;
+  const tooLong = (format === 'gif' || format === 'webp') && length > MAX_IMAGE_CLIP_LENGTH;
+  const fileName = hasRange ? clipFileName(videoName, clipIn!, clipOut!, format) : '';
+
+  const handleExport = async () => {
+    if (!hasRange || tooLong) return;
+    setError(null);
+    setProgress(0);
+    try {
+      const url = await exportClip(clipUrl, { start: clipIn!, end: clipOut!, format }, job => setProgress(job.progress));
+      setExportedUrl(url);
+    } catch (err) {
+      console.error('Clip export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!exportedUrl) return;
+    try {
+      await saveFile(exportedUrl, fileName);
+    } catch (err) {
+      console.error('Saving clip failed:', err);
+      setError(err instanceof Error ? err.message : 'Saving failed');
+    }
+  };
+
+  return (
+    <div className="absolute bottom-full right-0 mb-3 settings-menu rounded-xl overflow-hidden w-72 z-50">
+      <div className="p-4 glass-effect rounded-2xl overflow-hidden">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm text-white font-medium">Export Clip</h3>
+          <button onClick={onClose} aria-label="Close clip export">
+            <XMarkIcon className="w-4 h-4 text-white/70 hover:text-white" />
+          </button>
+        </div>
+
+        {/* In / out points */}
+        <div className="grid grid-cols-2 gap-2 mb-1">
+          <button
+            onClick={onSetIn}
+            className="py-2 px-2 text-xs rounded-md bg-white/10 text-white/80 hover:bg-white/20 transition text-left"
+          >
+            <div className="text-white/60">In (I)</div>
+            <div className="tabular-nums text-white">{clipIn !== null ? formatClipTime(clipIn) : '--'}</div>
+          </button>
+          <button
+            onClick={onSetOut}
+            className="py-2 px-2 text-xs rounded-md bg-white/10 text-white/80 hover:bg-white/20 transition text-left"
+          >
+            <div className="text-white/60">Out (O)</div>
+            <div className="tabular-nums text-white">{clipOut !== null ? formatClipTime(clipOut) : '--'}</div>
+          </button>
+        </div>
+        <div className="flex justify-between items-center mb-4 text-xs text-white/60">
+          <span>{hasRange ? `${length.toFixed(1)}s selected` : 'Set in and out at the current time'}</span>
+          {(clipIn !== null || clipOut !== null) && (
+            <button onClick={onClear} className="hover:text-white transition">Clear</button>
+          )}
+        </div>
+
+        {/* Format */}
+        <div className="flex gap-1 mb-4">
+          {formats.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setFormat(option.value)}
+              className={`flex-1 py-1 text-xs rounded-md transition ${
+                format === option.value
+                  ? 'bg-white/30 text-white'
+                  : 'bg-white/10 text-white/70 hover:bg-white/20'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {tooLong && (
+          <p className="text-xs text-white/60 mb-3">Animated images are limited to {MAX_IMAGE_CLIP_LENGTH} seconds.</p>
+        )}
+        {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+        {exportedUrl ? (
+          <button
+            onClick={handleSave}
+            className="w-full py-2 text-xs rounded-md bg-white/80 text-black hover:bg-white transition"
+          >
+            Save {fileName}
+          </button>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={!hasRange || tooLong || progress !== null}
+            className="w-full py-2 text-xs rounded-md bg-white/80 text-black hover:bg-white transition disabled:opacity-40 disabled:hover:bg-white/80"
+          >
+            {progress !== null ? `Exporting… ${progress}%` : 'Export'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClipExportPanel;
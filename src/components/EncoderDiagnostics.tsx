@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { MEDIA_SERVER_ORIGIN, mediaServerFetch } from '../lib/mediaServer';
+import type { EncoderDiagnostics as Diagnostics, EncoderStatus } from '../types/encoders';
+
+const statusLabel = (encoder: EncoderStatus) => {
+  if (encoder.working === null) return 'Not tested';
+  if (encoder.working) return 'Working';
+  return encoder.listed ? 'Failed' : 'Not in build';
+};
+
+// Shows which encoder builds ambient videos and lets the user pin one. Hidden when the
+// media server isn't running (e.g. the web build)
+const EncoderDiagnostics: React.FC = () => {
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (path: string, init?: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}${path}`, init);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+      setDiagnostics(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/encoders`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(setDiagnostics)
+      .catch(() => setDiagnostics(null));
+  }, []);
+
+  if (!diagnostics) return null;
+
+  const active = diagnostics.encoders.find(encoder => encoder.name === diagnostics.active);
+
+  const handleOverrideChange = (value: string) => {
+    request('/encoders', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ override: value || null }),
+    });
+  };
+
+  return (
+    <div className="mt-2 text-xs text-white/50">
+      <div className="flex items-center justify-center gap-3">
+        <span>
+          Encoder: {diagnostics.probing ? 'Testing...' : active?.label || 'Unknown'}
+          {diagnostics.override ? ' (pinned)' : ''}
+        </span>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="px-3 py-1 rounded-lg text-white/70 hover:text-white hover:ring-1 hover:ring-white/30 transition"
+        >
+          {expanded ? 'Hide' : 'Details'}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 mx-auto max-w-sm glass-effect rounded-xl p-3 text-left">
+          <ul className="space-y-1 mb-3">
+            {diagnostics.encoders.map(encoder => (
+              <li key={encoder.name} className="flex justify-between gap-3" title={encoder.error || undefined}>
+                <span className={encoder.name === diagnostics.active ? 'text-white' : ''}>{encoder.label}</span>
+                <span className={encoder.working ? 'text-green-400/80' : 'text-white/40'}>{statusLabel(encoder)}</span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center justify-between gap-3">
+            <select
+              value={diagnostics.override || ''}
+              onChange={(e) => handleOverrideChange(e.target.value)}
+              disabled={busy}
+              className="bg-white/10 text-white rounded-md px-2 py-1 outline-none"
+            >
+              <option value="">Automatic</option>
+              {diagnostics.encoders.filter(encoder => encoder.working).map(encoder => (
+                <option key={encoder.name} value={encoder.name}>{encoder.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => request('/encoders/probe', { method: 'POST' })}
+              disabled={busy}
+              className="px-3 py-1 rounded-lg text-white/70 hover:text-white hover:ring-1 hover:ring-white/30 transition disabled:opacity-40"
+            >
+              {busy ? 'Working...' : 'Re-test'}
+            </button>
+          </div>
+          {diagnostics.probedAt && (
+            <p className="mt-2 text-white/40">Tested {new Date(diagnostics.probedAt).toLocaleString()}</p>
+          )}
+          {error && <p className="mt-2 text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EncoderDiagnostics;
@@ -1,11 +1,29 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { BackgroundBeamsWithCollision } from './BackgroundBeamsWithCollision';
+import EncoderDiagnostics from './EncoderDiagnostics';
 import type { ChangeEvent } from 'react'
-import type { VideoSubmission } from '../types/video'
+import type { AmbientProfile, GeneratedAsset, VideoSubmission } from '../types/video'
+import type { JobRecord } from '../types/job'
+import { isJobFinished, watchJob } from '../lib/jobs'
+import { formatBytes } from '../lib/utils'
+import { UploadError, describeUploadError, readUploadError } from '../lib/uploads'
+import { readDroppedFiles } from '../lib/files'
+import { RESUMABLE_UPLOAD_MIN_BYTES, resumableUpload } from '../lib/resumableUpload'
+import type { UploadProgress } from '../lib/resumableUpload'
+import { MEDIA_SERVER_ORIGIN, mediaServerFetch } from '../lib/mediaServer'
 
 
 interface LandingPageProps {
   onVideoSubmit: (data: VideoSubmission) => void
+  onQueueSubmit: (items: VideoSubmission[]) => void // Several videos, played in order
+}
+
+interface ProcessingState {
+  jobId: string
+  job: JobRecord | null
+  notice: string | null // e.g. an encoder fallback
+  error: string | null
+  submission: VideoSubmission // What to play once the job is done, minus the ambient
 }
 
 // Check if we're running in Electron
@@ -13,14 +31,111 @@ const isElectron = () => {
   return (window as any).electron !== undefined;
 };
 
-const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
+// The media server returns track urls relative to its own origin
+const resolveSubtitleUrls = (subtitles: VideoSubmission['subtitles'] = [], origin: string) => {
+  return subtitles.map(sub => ({ ...sub, url: sub.url ? new URL(sub.url, origin).href : null }))
+};
+
+const resolveAudioTrackUrls = (audioTracks: VideoSubmission['audioTracks'] = [], origin: string) => {
+  return audioTracks.map(track => ({ ...track, renditionUrl: track.renditionUrl ? new URL(track.renditionUrl, origin).href : null }))
+};
+
+const resolveGeneratedAssetUrl = (asset: GeneratedAsset | null | undefined, origin: string) => {
+  return asset ? { ...asset, url: new URL(asset.url, origin).href } : null
+};
+
+// Turns an upload/ingest response into what the player needs. The ambient url only counts once
+// the rendition is ready; until then the response points at a file still being written
+const toSubmission = (data: any, fileName: string, origin: string): VideoSubmission => ({
+  videoUrl: new URL(data.videoUrl, origin).href,
+  ambientUrl: data.ready && data.ambientUrl ? new URL(data.ambientUrl, origin).href : undefined,
+  ambientProfile: data.ambientProfile ?? null,
+  audioTracks: resolveAudioTrackUrls(data.audioTracks, origin),
+  subtitles: resolveSubtitleUrls(data.subtitles, origin),
+  chapters: data.chapters,
+  frameRate: data.frameRate ?? null,
+  thumbnails: resolveGeneratedAssetUrl(data.thumbnails, origin),
+  loudness: resolveGeneratedAssetUrl(data.loudness, origin),
+  waveform: resolveGeneratedAssetUrl(data.waveform, origin),
+  scenes: resolveGeneratedAssetUrl(data.scenes, origin),
+  mediaInfoUrl: data.mediaInfoUrl ? new URL(data.mediaInfoUrl, origin).href : null,
+  clipUrl: data.clipUrl ? new URL(data.clipUrl, origin).href : null,
+  frameUrl: data.frameUrl ? new URL(data.frameUrl, origin).href : null,
+  fileName,
+});
+
+// Formats a job ETA as m:ss
+const formatEta = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+};
+
+const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit, onQueueSubmit }) => {
   const [videoUrl, setVideoUrl] = useState<string>('')
   const [error, setError] = useState<string>('')
   const [useFfmpeg, setUseFfmpeg] = useState<boolean>(false) // Changed default to false
-  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [detectScenes, setDetectScenes] = useState<boolean>(false)
+  const [processing, setProcessing] = useState<ProcessingState | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<(UploadProgress & { fileName: string }) | null>(null)
+  const uploadAbortRef = useRef<AbortController | null>(null)
   const [isDragOver, setIsDragOver] = useState<boolean>(false)
   const dragCounterRef = useRef<number>(0)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const stopWatchingRef = useRef<(() => void) | null>(null)
+  const [cacheUsage, setCacheUsage] = useState<{ totalBytes: number; limitBytes: number; count: number } | null>(null)
+  const [isClearingCache, setIsClearingCache] = useState<boolean>(false)
+  const [ambientProfiles, setAmbientProfiles] = useState<AmbientProfile[]>([])
+  const [ambientProfile, setAmbientProfile] = useState<string | null>(null)
+
+  // Show how much disk the media server's processed files take (absent when it isn't running)
+  const refreshCacheUsage = async () => {
+    try {
+      const res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/cache`)
+      if (!res.ok) return
+      const data = await res.json()
+      setCacheUsage({ totalBytes: data.totalBytes, limitBytes: data.limitBytes, count: data.entries.length })
+    } catch {
+      setCacheUsage(null)
+    }
+  }
+
+  useEffect(() => {
+    refreshCacheUsage()
+  }, [])
+
+  // Load the ambient profiles and the saved selection (absent when the media server isn't running)
+  useEffect(() => {
+    mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/ambient-profiles`)
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (!data) return
+        setAmbientProfiles(data.profiles)
+        setAmbientProfile(data.selected)
+      })
+      .catch(() => {})
+  }, [])
+
+  // The selection is saved on the media server so it applies to later sessions too
+  const handleSelectAmbientProfile = async (id: string) => {
+    const previous = ambientProfile
+    setAmbientProfile(id)
+    try {
+      const res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/ambient-profiles`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ selected: id }),
+      })
+      if (!res.ok) throw new Error((await res.json()).error)
+    } catch (err) {
+      console.error('Failed to save ambient profile:', err)
+      setAmbientProfile(previous)
+    }
+  }
+
+  // Close the progress stream if we navigate away mid-job
+  useEffect(() => {
+    return () => stopWatchingRef.current?.()
+  }, [])
 
   // Handle drag and drop functionality with counter to prevent flickering
   const handleDragEnter = (e: React.DragEvent) => {
@@ -46,85 +161,246 @@ const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
     }
   }
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
     dragCounterRef.current = 0
     setIsDragOver(false)
 
-    const files = Array.from(e.dataTransfer.files)
-    const videoFile = files.find(file => file.type.startsWith('video/'))
+    // In Electron the server reads dropped folders from disk; the browser walks them for their videos
+    const entries = Array.from(e.dataTransfer.items).map(item => item.webkitGetAsEntry())
+    let files: File[]
+    if (isElectron()) {
+      files = Array.from(e.dataTransfer.files).filter((file, idx) =>
+        file.type.startsWith('video/') || entries[idx]?.isDirectory
+      )
+    } else {
+      try {
+        files = (await readDroppedFiles(entries)).filter(file => file.type.startsWith('video/'))
+      } catch (err) {
+        console.error(err)
+        setError('The dropped folder could not be read')
+        return
+      }
+    }
 
-    if (videoFile) {
-      handleFileUpload(videoFile)
+    if (files.length === 1 && files[0].type.startsWith('video/')) {
+      handleFileUpload(files[0])
+    } else if (files.length > 0) {
+      handleBatchUpload(files)
     } else {
       setError('Please drop a valid video file')
     }
   }
 
   const handleFileUpload = async (file: File) => {
-    // If FFmpeg is disabled, bypass backend and play immediately from blob
-    if (!useFfmpeg) {
+    // In Electron the server streams the file from disk, so there is nothing to upload
+    const filePath = isElectron() ? window.electron?.getPathForFile?.(file) : null
+
+    // If no server processing is wanted in the browser, bypass backend and play immediately from blob
+    if (!useFfmpeg && !detectScenes && !filePath) {
       const videoURL = URL.createObjectURL(file)
       onVideoSubmit({ videoUrl: videoURL, fileName: file.name, ambientUrl: undefined, audioTracks: undefined, subtitles: undefined })
       return
     }
 
+    // Large files go up in resumable chunks, with progress
+    if (!filePath && file.size >= RESUMABLE_UPLOAD_MIN_BYTES) {
+      const controller = new AbortController()
+      uploadAbortRef.current = controller
+      setUploadProgress({ fileName: file.name, sent: 0, total: file.size })
+      try {
+        const data = await resumableUpload(file, {
+          useFfmpeg,
+          detectScenes,
+          ambientProfile,
+          onProgress: progress => setUploadProgress({ fileName: file.name, ...progress }),
+          signal: controller.signal,
+        })
+        openProcessedVideo(data, file.name)
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error(err)
+          setError(describeUploadError(err))
+        }
+      } finally {
+        uploadAbortRef.current = null
+        setUploadProgress(null)
+      }
+      return
+    }
+
     try {
-      const formData = new FormData()
-      formData.append('video', file)
+      let res: Response
+      if (filePath) {
+        res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/video/upload-electron`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filePath, useFfmpeg, detectScenes, ambientProfile })
+        })
+      } else {
+        const formData = new FormData()
+        formData.append('video', file)
+
+        const params = new URLSearchParams({ useFfmpeg: String(useFfmpeg), detectScenes: String(detectScenes) })
+        if (ambientProfile) params.set('ambientProfile', ambientProfile)
+        res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/video/upload-local?${params}`, {
+          method: 'POST',
+          body: formData
+        })
+      }
 
-      const res = await fetch(`http://localhost:4000/video/upload-local?useFfmpeg=${useFfmpeg}`, {
-        method: 'POST',
-        body: formData
-      })
+      if (!res.ok) throw await readUploadError(res)
 
-      if (!res.ok) throw new Error('Upload failed')
+      openProcessedVideo(await res.json(), file.name)
+    } catch (err) {
+      console.error(err)
+      setError(describeUploadError(err))
+    }
+  }
 
-      const data = await res.json()
+  // Opens several files (and in Electron, folders) as a play queue in the order given. The server
+  // probes all of them and queues their processing; they play as soon as they are needed. Paths
+  // picked in the Electron open dialog come without Files
+  const handleBatchUpload = async (
+    files: File[],
+    filePaths = isElectron()
+      ? files.map(file => window.electron?.getPathForFile?.(file)).filter((filePath): filePath is string => !!filePath)
+      : []
+  ) => {
+
+    // Without server processing the browser plays the files straight from blobs
+    if (!useFfmpeg && !detectScenes && !filePaths.length) {
+      onQueueSubmit(files.map(file => ({ videoUrl: URL.createObjectURL(file), fileName: file.name })))
+      return
+    }
 
-      if (!data.ready) {
-        // show processing UI
-        setProcessingId(data.id)
-
-        // poll progress
-        const interval = setInterval(async () => {
-          try {
-            const progressRes = await fetch(`http://localhost:4000/progress/${data.id}`)
-            const s = await progressRes.json()
-
-            if (s.ready) {
-              clearInterval(interval)
-              const backendOrigin = 'http://localhost:4000'
-              const submission: VideoSubmission = {
-                videoUrl: new URL(s.videoUrl, backendOrigin).href,
-                ambientUrl: s.ambientUrl ? new URL(s.ambientUrl, backendOrigin).href : undefined,
-                audioTracks: data.audioTracks || [],
-                subtitles: data.subtitles || [],
-                fileName: file.name,
-              }
-              setProcessingId(null)
-              onVideoSubmit(submission)
-            }
-          } catch (err) {
-            console.error('Error polling status:', err)
-          }
-        }, 500) // Poll every 500ms
-        return
+    try {
+      let res: Response
+      if (filePaths.length) {
+        res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/video/batch-electron`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ paths: filePaths, useFfmpeg, detectScenes, ambientProfile })
+        })
+      } else {
+        const formData = new FormData()
+        files.forEach(file => formData.append('videos', file))
+
+        const params = new URLSearchParams({ useFfmpeg: String(useFfmpeg), detectScenes: String(detectScenes) })
+        if (ambientProfile) params.set('ambientProfile', ambientProfile)
+        res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/video/batch-local?${params}`, {
+          method: 'POST',
+          body: formData
+        })
       }
 
-      const backendOrigin = 'http://localhost:4000'
-      const submission: VideoSubmission = {
-        videoUrl: new URL(data.videoUrl, backendOrigin).href,
-        ambientUrl: data.ambientUrl ? new URL(data.ambientUrl, backendOrigin).href : undefined,
-        audioTracks: data.audioTracks || [],
-        subtitles: data.subtitles || [],
-        fileName: file.name,
+      if (!res.ok) throw await readUploadError(res)
+
+      const items: any[] = (await res.json()).items
+      items.filter(item => item.error).forEach(item => console.warn(`Skipping ${item.fileName}: ${item.error}`))
+      const queue = items.filter(item => !item.error).map(item => ({
+        ...toSubmission(item, item.fileName, MEDIA_SERVER_ORIGIN),
+        ambientJobId: item.ready ? null : item.id,
+        hlsJobId: item.hlsJobId ?? null,
+      }))
+      if (!queue.length) {
+        // Explain the failure when every file failed the same way
+        const codes = new Set(items.map(item => item.code))
+        throw codes.size === 1
+          ? new UploadError(items[0].error, items[0].code)
+          : new UploadError('None of these videos could be opened')
       }
+
+      onQueueSubmit(queue)
+    } catch (err) {
+      console.error(err)
+      setError(describeUploadError(err))
+    }
+  }
+
+  // Plays a video the media server has taken in, waiting for its ambient rendition first if needed
+  const openProcessedVideo = (data: any, fileName: string) => {
+    const submission = toSubmission(data, fileName, MEDIA_SERVER_ORIGIN)
+
+    if (data.ready) {
       onVideoSubmit(submission)
+      return
+    }
+
+    // show processing UI and follow the job's progress stream
+    setProcessing({ jobId: data.id, job: null, notice: null, error: null, submission })
+    stopWatchingRef.current?.()
+    stopWatchingRef.current = watchJob(
+      `${MEDIA_SERVER_ORIGIN}/jobs/${data.id}/events`,
+      (type, job) => {
+        if (job.ready) {
+          stopWatchingRef.current = null
+          setProcessing(null)
+          onVideoSubmit({
+            ...submission,
+            videoUrl: job.videoUrl ? new URL(job.videoUrl, MEDIA_SERVER_ORIGIN).href : submission.videoUrl,
+            ambientUrl: job.ambientUrl ? new URL(job.ambientUrl, MEDIA_SERVER_ORIGIN).href : undefined,
+          })
+          return
+        }
+
+        setProcessing(prev => prev && {
+          ...prev,
+          job,
+          notice: type === 'encoder' && job.encodersTried.length > 1
+            ? `${job.encodersTried[job.encodersTried.length - 2]} failed, falling back to ${job.encoder}`
+            : prev.notice,
+          error: isJobFinished(job) ? job.error || `Processing ${job.status}` : null,
+        })
+      },
+      () => {
+        setProcessing(prev => prev && { ...prev, error: 'Lost track of the processing job' })
+      }
+    )
+  }
+
+  // Stops a chunked upload and discards what the server received
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort()
+  }
+
+  // Cancels the running job on the server and returns to the landing page
+  const handleCancelProcessing = async () => {
+    if (!processing) return
+    stopWatchingRef.current?.()
+    stopWatchingRef.current = null
+    if (!processing.error) {
+      try {
+        await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/jobs/${processing.jobId}`, { method: 'DELETE' })
+      } catch (err) {
+        console.error('Failed to cancel job:', err)
+      }
+    }
+    setProcessing(null)
+  }
+
+  // The original still plays when only the ambient render failed
+  const handlePlayWithoutAmbient = () => {
+    if (!processing) return
+    stopWatchingRef.current?.()
+    stopWatchingRef.current = null
+    onVideoSubmit(processing.submission)
+    setProcessing(null)
+  }
+
+  const handleClearCache = async () => {
+    if (!window.confirm('Delete all processed ambient videos, streams and thumbnails? They will be regenerated when needed.')) return
+    setIsClearingCache(true)
+    try {
+      const res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/cache`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to clear cache')
     } catch (err) {
       console.error(err)
-      setError('Upload failed')
+      setError('Failed to clear cache')
+    } finally {
+      setIsClearingCache(false)
+      refreshCacheUsage()
     }
   }
 
@@ -133,18 +409,13 @@ const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
     setError('')
   }
 
-  const handleElectronFileSelect = async () => {
-    // Always use the native file input
-    fileInputRef.current?.click();
-  }
-
   const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-    handleFileUpload(file)
+    const files = Array.from(e.target.files ?? [])
+    if (files.length > 1) handleBatchUpload(files)
+    else if (files.length === 1) handleFileUpload(files[0])
   }
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (videoUrl.trim() === '') {
       setError('Please enter a valid URL')
       return
@@ -153,18 +424,53 @@ const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
     // Simple URL validation
     try {
       new URL(videoUrl)
-      const fileName = videoUrl.split('/').pop() || videoUrl
-
-      // FFmpeg is always disabled for URL uploads
-      onVideoSubmit({ videoUrl, ambientUrl: undefined, fileName, audioTracks: undefined, subtitles: undefined })
     } catch (err) {
       setError('Please enter a valid URL')
+      return
+    }
+
+    const fileName = videoUrl.split('/').pop() || videoUrl
+
+    // The media server reads the url itself to build the ambient rendition, tracks and thumbnails
+    let data
+    try {
+      const res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/video/ingest-url`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: videoUrl, useFfmpeg, detectScenes, ambientProfile }),
+      })
+      if (!res.ok) throw await readUploadError(res)
+      data = await res.json()
+    } catch (err) {
+      // fetch rejects with a TypeError when no media server answers (e.g. the web build); the url is
+      // still playable as-is then. Anything the server rejected is shown like an upload error
+      if (err instanceof TypeError) {
+        onVideoSubmit({ videoUrl, ambientUrl: undefined, fileName, audioTracks: undefined, subtitles: undefined })
+        return
+      }
+      console.error(err)
+      setError(describeUploadError(err))
+      return
     }
+
+    openProcessedVideo(data, fileName)
   }
 
-  const handleFileClick = () => {
-    // Always use the native file input for now
-    fileInputRef.current?.click();
+  const handleFileClick = async () => {
+    if (!window.electron) {
+      fileInputRef.current?.click();
+      return;
+    }
+
+    // Electron's open dialog can pick several videos and folders at once; the picked paths are
+    // granted to the media server, which expands the folders itself
+    try {
+      const filePaths: string[] | null = await window.electron.invoke('dialog:openFile');
+      if (filePaths?.length) handleBatchUpload([], filePaths);
+    } catch (err) {
+      console.error(err);
+      setError('Could not open the file dialog');
+    }
   };
 
   return (
@@ -187,8 +493,8 @@ const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                 </svg>
               </div>
-              <h3 className="text-2xl font-medium text-white mb-2">Drop video file here</h3>
-              <p className="text-white/60 text-sm">Release to upload your video</p>
+              <h3 className="text-2xl font-medium text-white mb-2">Drop videos here</h3>
+              <p className="text-white/60 text-sm">Several files{isElectron() ? ' or folders' : ''} open as a play queue</p>
             </div>
           </div>
         </div>
@@ -255,6 +561,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
                     type="file"
                     ref={fileInputRef}
                     accept="video/*"
+                    multiple
                     onChange={handleFileChange}
                     className="hidden"
                   />
@@ -283,10 +590,71 @@ const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
                     />
                   </button>
                 </div>
+                {/* Ambient profile, only relevant when FFmpeg renders the ambient video */}
+                {useFfmpeg && ambientProfiles.length > 0 && (
+                  <div className="flex items-center justify-center gap-1 mb-2 select-none">
+                    <span className="mr-2 text-sm text-white/70">Ambient Profile</span>
+                    {ambientProfiles.map(profile => (
+                      <button
+                        key={profile.id}
+                        onClick={() => handleSelectAmbientProfile(profile.id)}
+                        title={profile.description}
+                        className={`px-3 py-1 text-xs rounded-lg transition ${
+                          ambientProfile === profile.id
+                            ? 'bg-white/80 text-black'
+                            : 'bg-white/10 text-white/70 hover:bg-white/20'
+                        }`}
+                      >
+                        {profile.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {/* Scene detection toggle */}
+                <div className="flex items-center justify-center mb-2 select-none">
+                  <span className="mr-3 text-sm text-white/70">Detect Scenes As Chapters</span>
+
+                  <button
+                    onClick={() => setDetectScenes(!detectScenes)}
+                    className={
+                      `
+                  relative w-12 h-6 rounded-full transition
+                  ${detectScenes ? 'bg-white/80' : 'bg-white/20'}
+                  backdrop-blur-sm shadow-inner
+                  `
+                    }
+                  >
+                    <span
+                      className={
+                        `
+                    absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-black/80 transition-transform
+                    ${detectScenes ? 'translate-x-6' : ''}
+                    `
+                      }
+                    />
+                  </button>
+                </div>
                 {/* FFmpeg note */}
                 <p className="text-xs text-center text-white/50 mb-6">
-                  FFmpeg Processing Requires Downloading The Video. For URL Streams, Download First For FFmpeg Processing.
+                  FFmpeg Processing Reads The Whole Video. For URL Streams The Ambient Video Is Built While Streaming.
                 </p>
+                {/* Processed file cache */}
+                {cacheUsage && (
+                  <div className="flex items-center justify-center gap-3 text-xs text-white/50">
+                    <span>
+                      Cache: {formatBytes(cacheUsage.totalBytes)} of {formatBytes(cacheUsage.limitBytes)} · {cacheUsage.count} {cacheUsage.count === 1 ? 'video' : 'videos'}
+                    </span>
+                    <button
+                      onClick={handleClearCache}
+                      disabled={isClearingCache || cacheUsage.count === 0}
+                      className="px-3 py-1 rounded-lg text-white/70 hover:text-white hover:ring-1 hover:ring-white/30 transition disabled:opacity-40 disabled:hover:ring-0"
+                    >
+                      {isClearingCache ? 'Clearing...' : 'Clear'}
+                    </button>
+                  </div>
+                )}
+                {/* Encoder selection and probe results */}
+                <EncoderDiagnostics />
               </div>
             </div>
           </div>
@@ -346,13 +714,81 @@ const LandingPage: React.FC<LandingPageProps> = ({ onVideoSubmit }) => {
             </div>
           </button>
 
-          {processingId && (
+          {uploadProgress && (
             <div className="fixed inset-0 bg-black/70 flex flex-col items-center justify-center z-50">
-              <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-white mb-6"></div>
-              <h2 className="text-white text-xl mb-4 text-center">Processing video...</h2>
-              <p className="text-white/70 text-center max-w-md px-6">
-                Using FFmpeg Requires GPU Processing And Might Take A Minute Or Two To Render A Smooth Ambient Playback Experience.
+              <h2 className="text-white text-xl mb-4 text-center">Uploading {uploadProgress.fileName}...</h2>
+              <div className="w-72 h-1.5 rounded-full bg-white/20 overflow-hidden mb-2">
+                <div
+                  className="h-full bg-white/80 transition-all duration-300"
+                  style={{ width: `${(uploadProgress.sent / uploadProgress.total) * 100}%` }}
+                />
+              </div>
+              <p className="text-white/70 text-sm mb-6">
+                {formatBytes(uploadProgress.sent)} of {formatBytes(uploadProgress.total)} · {Math.floor((uploadProgress.sent / uploadProgress.total) * 100)}%
               </p>
+              <button
+                onClick={handleCancelUpload}
+                className="px-5 py-2 text-white/80 rounded-xl hover:ring-2 hover:ring-white/30 transition text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {processing && (
+            <div className="fixed inset-0 bg-black/70 flex flex-col items-center justify-center z-50">
+              {processing.error ? (
+                <>
+                  <h2 className="text-white text-xl mb-4 text-center">Processing failed</h2>
+                  <p className="text-red-400 text-center max-w-md px-6 mb-6 break-words">{processing.error}</p>
+                  <div className="flex gap-4">
+                    {processing.job?.type === 'ambient' && (
+                      <button
+                        onClick={handlePlayWithoutAmbient}
+                        className="px-5 py-2 text-white rounded-xl bg-white/10 hover:ring-2 hover:ring-white/30 transition"
+                      >
+                        Play without ambient
+                      </button>
+                    )}
+                    <button
+                      onClick={handleCancelProcessing}
+                      className="px-5 py-2 text-white rounded-xl bg-white/10 hover:ring-2 hover:ring-white/30 transition"
+                    >
+                      Back
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-white mb-6"></div>
+                  <h2 className="text-white text-xl mb-4 text-center">
+                    {processing.job?.status === 'queued' ? 'Waiting to process...' : 'Processing video...'}
+                  </h2>
+                  <div className="w-72 h-1.5 rounded-full bg-white/20 overflow-hidden mb-2">
+                    <div
+                      className="h-full bg-white/80 transition-all duration-300"
+                      style={{ width: `${processing.job?.progress ?? 0}%` }}
+                    />
+                  </div>
+                  <p className="text-white/70 text-sm mb-4">
+                    {processing.job?.status === 'queued'
+                      ? `Queued · position ${processing.job.queuePosition ?? '?'}`
+                      : `${processing.job?.progress ?? 0}%`}
+                    {processing.job?.encoder && ` · ${processing.job.encoder}`}
+                    {processing.job?.etaMs != null && ` · about ${formatEta(processing.job.etaMs)} left`}
+                  </p>
+                  {processing.notice && <p className="text-amber-300/90 text-sm mb-4">{processing.notice}</p>}
+                  <p className="text-white/70 text-center max-w-md px-6 mb-6">
+                    Using FFmpeg Requires GPU Processing And Might Take A Minute Or Two To Render A Smooth Ambient Playback Experience.
+                  </p>
+                  <button
+                    onClick={handleCancelProcessing}
+                    className="px-5 py-2 text-white/80 rounded-xl hover:ring-2 hover:ring-white/30 transition text-sm"
+                  >
+                    Cancel
+                  </button>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,138 @@
+import React from 'react';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+import type { MediaInfo } from '../types/mediaInfo';
+import { formatBytes } from '../lib/utils';
+
+interface MediaInfoPanelProps {
+  info: MediaInfo | null;
+  error: string | null;
+  onClose: () => void;
+}
+
+const playbackLabels: Record<MediaInfo['playback'], string> = {
+  direct: 'Direct play',
+  remux: 'Remuxed to HLS',
+  transcode: 'Transcoded to HLS',
+};
+
+const formatBitRate = (bitRate: number | null) => {
+  if (bitRate === null) return null;
+  return bitRate >= 1_000_000 ? `${(bitRate / 1_000_000).toFixed(1)} Mb/s` : `${Math.round(bitRate / 1000)} kb/s`;
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return null;
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h ? `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}` : `${m}:${String(s).padStart(2, '0')}`;
+};
+
+// Label/value rows; rows without a value are skipped
+const InfoRows: React.FC<{ rows: Array<[string, React.ReactNode]> }> = ({ rows }) => (
+  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+    {rows.filter(([, value]) => value !== null && value !== undefined && value !== '').map(([label, value]) => (
+      <React.Fragment key={label}>
+        <dt className="text-white/60">{label}</dt>
+        <dd className="text-white break-words">{value}</dd>
+      </React.Fragment>
+    ))}
+  </dl>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="py-3">
+    <h4 className="text-xs uppercase tracking-wide text-white/50 mb-2">{title}</h4>
+    {children}
+  </div>
+);
+
+const tagRows = (tags: Record<string, string>) =>
+  Object.entries(tags).filter(([key]) => key !== 'language').map(([key, value]): [string, React.ReactNode] => [key, value]);
+
+const MediaInfoPanel: React.FC<MediaInfoPanelProps> = ({ info, error, onClose }) => {
+  return (
+    <div className="absolute bottom-full right-0 mb-3 settings-menu rounded-xl overflow-hidden w-96 z-50">
+      <div className="p-4 glass-effect rounded-2xl overflow-hidden">
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-sm text-white font-medium">Media Info</h3>
+          <button onClick={onClose} aria-label="Close media info">
+            <XMarkIcon className="w-4 h-4 text-white/70 hover:text-white" />
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-400 py-2">{error}</p>}
+        {!info && !error && <p className="text-xs text-white/70 py-2">Loading...</p>}
+
+        {info && (
+          <div className="max-h-96 overflow-y-auto divide-y divide-white/10 pr-1">
+            <Section title="File">
+              <InfoRows rows={[
+                ['Name', info.name],
+                ['Container', info.container],
+                ['Size', info.size !== null ? formatBytes(info.size) : null],
+                ['Duration', formatDuration(info.duration)],
+                ['Bitrate', formatBitRate(info.bitRate)],
+                ['Playback', playbackLabels[info.playback]],
+                ['Chapters', info.chapters || null],
+                ...tagRows(info.tags),
+              ]} />
+            </Section>
+
+            {info.video.map(stream => (
+              <Section key={stream.index} title={`Video #${stream.index}`}>
+                <InfoRows rows={[
+                  ['Codec', [stream.codec, stream.profile].filter(Boolean).join(' · ')],
+                  ['Level', stream.level],
+                  ['Resolution', `${stream.width}×${stream.height}${stream.displayAspectRatio ? ` (${stream.displayAspectRatio})` : ''}`],
+                  ['Frame rate', stream.frameRate !== null ? `${stream.frameRate} fps` : null],
+                  ['Bitrate', formatBitRate(stream.bitRate)],
+                  ['Pixel format', stream.pixelFormat],
+                  ['Bit depth', stream.bitDepth !== null ? `${stream.bitDepth}-bit` : null],
+                  ['HDR', stream.hdr],
+                  ['Color', [stream.color.primaries, stream.color.transfer, stream.color.space, stream.color.range].filter(Boolean).join(' / ') || null],
+                  ...tagRows(stream.tags),
+                ]} />
+              </Section>
+            ))}
+
+            {info.audio.map(stream => (
+              <Section key={stream.index} title={`Audio #${stream.index}${stream.default ? ' (default)' : ''}`}>
+                <InfoRows rows={[
+                  ['Codec', [stream.codec, stream.profile].filter(Boolean).join(' · ')],
+                  ['Language', stream.language],
+                  ['Channels', `${stream.channels}${stream.channelLayout ? ` (${stream.channelLayout})` : ''}`],
+                  ['Sample rate', stream.sampleRate !== null ? `${stream.sampleRate} Hz` : null],
+                  ['Bitrate', formatBitRate(stream.bitRate)],
+                  ...tagRows(stream.tags),
+                ]} />
+              </Section>
+            ))}
+
+            {info.subtitles.map(stream => (
+              <Section key={stream.index} title={`Subtitle #${stream.index}${stream.default ? ' (default)' : ''}`}>
+                <InfoRows rows={[
+                  ['Codec', stream.codec],
+                  ['Language', stream.language],
+                  ...tagRows(stream.tags),
+                ]} />
+              </Section>
+            ))}
+
+            {info.other.map(stream => (
+              <Section key={stream.index} title={`${stream.type} #${stream.index}`}>
+                <InfoRows rows={[
+                  ['Codec', stream.codec || stream.codecLongName],
+                  ...tagRows(stream.tags),
+                ]} />
+              </Section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MediaInfoPanel;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { isJobFinished, watchJob } from '../lib/jobs';
+import { MEDIA_SERVER_ORIGIN } from '../lib/mediaServer';
+import type { JobRecord } from '../types/job';
+
+interface StreamPendingProps {
+  jobId: string; // HLS job of the queued video
+  fileName: string;
+  onReady: () => void;
+  onSkip?: () => void; // Moves on to the next video in the queue, absent on the last one
+  onBack: () => void;
+}
+
+// Stands in for the player while a queued video's HLS stream is still starting. Following the job
+// makes it the watched source on the server, so its stream starts without waiting for a free slot
+const StreamPending: React.FC<StreamPendingProps> = ({ jobId, fileName, onReady, onSkip, onBack }) => {
+  const [job, setJob] = useState<JobRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return watchJob(
+      `${MEDIA_SERVER_ORIGIN}/jobs/${jobId}/events`,
+      (_type, update) => {
+        if (update.ready) onReady();
+        else if (isJobFinished(update)) setError(update.error || `Stream ${update.status}`);
+        else setJob(update);
+      },
+      () => setError('Lost track of the stream job')
+    );
+  }, [jobId]);
+
+  return (
+    <div className="glass-effect rounded-2xl flex flex-col items-center justify-center py-20 px-6">
+      {error ? (
+        <>
+          <h2 className="text-white text-xl mb-4 text-center">{fileName} could not be prepared</h2>
+          <p className="text-red-400 text-center max-w-md mb-6 break-words">{error}</p>
+        </>
+      ) : (
+        <>
+          <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-white mb-6"></div>
+          <h2 className="text-white text-xl mb-2 text-center">Preparing {fileName}...</h2>
+          <p className="text-white/70 text-sm mb-6">
+            {job?.status === 'queued' ? `Queued · position ${job.queuePosition ?? '?'}` : 'Starting stream'}
+          </p>
+        </>
+      )}
+      <div className="flex gap-4">
+        {onSkip && (
+          <button
+            onClick={onSkip}
+            className="px-5 py-2 text-white rounded-xl bg-white/10 hover:ring-2 hover:ring-white/30 transition"
+          >
+            Skip
+          </button>
+        )}
+        <button
+          onClick={onBack}
+          className="px-5 py-2 text-white rounded-xl bg-white/10 hover:ring-2 hover:ring-white/30 transition"
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StreamPending;
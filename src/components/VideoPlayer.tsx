@@ -1,41 +1,98 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { motion } from 'motion/react'
+import Hls from 'hls.js'
 import {
   PlayIcon, PauseIcon, ArrowLeftIcon,
   Cog6ToothIcon, ArrowsPointingOutIcon,
   BackwardIcon, ForwardIcon,
-  SpeakerWaveIcon, SpeakerXMarkIcon
+  SpeakerWaveIcon, SpeakerXMarkIcon, CameraIcon, QueueListIcon
 } from '@heroicons/react/24/solid'
 import PlaybackControls from './PlaybackControls'
 import SpeedMenu from './SpeedMenu'
 import AudioControlsMenu from './AudioControlsMenu'
+import MediaInfoPanel from './MediaInfoPanel'
+import ClipExportPanel from './ClipExportPanel'
+import { fetchGeneratedAsset, waitForJob } from '../lib/jobs'
+import { findThumbnailCue, loadThumbnails } from '../lib/thumbnails'
+import type { ThumbnailCue } from '../lib/thumbnails'
+import { drawWaveform } from '../lib/waveform'
+import { captureFrame, screenshotFileName } from '../lib/screenshots'
+import type { ScreenshotFormat } from '../lib/screenshots'
+import { saveBlob } from '../lib/files'
+import { mediaServerFetch } from '../lib/mediaServer'
+import { formatSmpte, frameAt, frameTime, parseTimecode, snapFrameRate } from '../lib/timecode'
+import type { AmbientProfile, Chapter, GeneratedAsset, Loudness, ThumbnailsInfo, Waveform } from '../types/video'
+import type { MediaInfo } from '../types/mediaInfo'
 
 interface AudioTrackInfo {
   index: number;
   language: string;
   codec: string;
   channels?: number;
+  renditionUrl?: string | null; // Server endpoint that remuxes a rendition with only this audio stream
 }
 
 interface SubtitleTrackInfo {
   index: number;
   language: string;
   codec: string;
+  url?: string | null; // WebVTT url, absent for bitmap subtitles
 }
 
 interface VideoPlayerProps {
   videoSrc: string;
   ambientSrc?: string;
+  ambientProfile?: AmbientProfile | null;
   audioTracksInfo?: AudioTrackInfo[];
   subtitleTracksInfo?: SubtitleTrackInfo[];
+  chapters?: Chapter[];
+  frameRate?: number | null; // Probed frame rate for frame stepping, measured during playback when absent
+  thumbnails?: ThumbnailsInfo | null; // Server-generated sprite sheets for seek previews
+  mediaInfoUrl?: string | null;
+  clipUrl?: string | null; // Media server endpoint for exporting the in/out range
+  frameUrl?: string | null; // Media server endpoint for full-resolution frame grabs
+  loudness?: GeneratedAsset | null; // Server-side EBU R128 analysis used for volume normalization
+  waveform?: GeneratedAsset | null; // Audio envelope drawn behind the progress bar
+  scenes?: GeneratedAsset | null; // Detected scene boundaries, used as chapters when the file has none
   videoName: string;
+  queueNames?: string[]; // File names of the play queue this video belongs to, in order
+  queueIndex?: number; // Position of this video in the queue
+  onSelectQueueItem?: (index: number) => void;
+  autoPlay?: boolean;
   onBack: () => void;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTracksInfo, subtitleTracksInfo, videoName, onBack }) => {
+// Volume normalization aims every file at this integrated loudness, within these gain bounds
+const LOUDNESS_TARGET_LUFS = -16
+const MAX_NORMALIZATION_BOOST_DB = 12
+const MAX_NORMALIZATION_CUT_DB = -24
+
+const normalizationGainDb = (loudness: Loudness) => {
+  return Math.min(MAX_NORMALIZATION_BOOST_DB, Math.max(MAX_NORMALIZATION_CUT_DB, LOUDNESS_TARGET_LUFS - loudness.integrated))
+}
+
+// Frame durations collected before trusting a measured frame rate
+const FRAME_RATE_SAMPLES = 30
+
+type FrameDisplay = 'off' | 'timecode' | 'frames'
+
+const FRAME_DISPLAY_LABELS: Record<FrameDisplay, string> = { off: 'Off', timecode: 'SMPTE', frames: 'Frame number' }
+
+// The media server falls back to HLS playlists for files Chromium cannot play directly
+const isHlsSource = (src: string) => {
+  try {
+    return new URL(src, window.location.href).pathname.endsWith('.m3u8')
+  } catch {
+    return false
+  }
+}
+
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, ambientProfile, audioTracksInfo, subtitleTracksInfo, chapters: containerChapters, frameRate: probedFrameRate, thumbnails, mediaInfoUrl, clipUrl, frameUrl, loudness, waveform, scenes, videoName, queueNames = [], queueIndex = 0, onSelectQueueItem, autoPlay, onBack }) => {
   const videoRef = useRef<HTMLVideoElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const progressBarRef = useRef<HTMLDivElement>(null)
+  const waveformCanvasRef = useRef<HTMLCanvasElement>(null)
+  const [waveformData, setWaveformData] = useState<Waveform | null>(null)
   const previewRef = useRef<HTMLDivElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const previewVideoRef = useRef<HTMLVideoElement>(null)
@@ -66,6 +123,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
   const [videoFileName, setVideoFileName] = useState(videoName)
   const [previewTime, setPreviewTime] = useState<number | null>(null)
   const [previewPosition, setPreviewPosition] = useState(0)
+  // Sprite sheet tiles; null until loaded, in which case previews fall back to seeking a hidden video
+  const [thumbnailCues, setThumbnailCues] = useState<ThumbnailCue[] | null>(null)
   const [videoDimensions, setVideoDimensions] = useState({ width: 0, height: 0 })
   // Player resize state (width & height)
   const [playerWidth, setPlayerWidth] = useState<number | null>(null)
@@ -88,6 +147,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
   const bassFilterRef = useRef<BiquadFilterNode | null>(null)
   const trebleFilterRef = useRef<BiquadFilterNode | null>(null)
   const vocalsFilterRef = useRef<BiquadFilterNode | null>(null)
+  // Loudness normalization: a gain stage followed by a limiter that catches peaks pushed over 0 dBFS
+  const normalizationGainRef = useRef<GainNode | null>(null)
+  const limiterRef = useRef<DynamicsCompressorNode | null>(null)
+  // Gain currently wanted (dB), read when the audio graph is created after the analysis arrived
+  const normalizationDbRef = useRef(0)
+  const [loudnessInfo, setLoudnessInfo] = useState<Loudness | null>(null)
+  const [normalizationEnabled, setNormalizationEnabled] = useState(true)
 
   // Canvas for ambient background (drawn at low resolution)
   const ambientCanvasRef = useRef<HTMLCanvasElement>(null)
@@ -95,10 +161,37 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
   const [isScrubbing, setIsScrubbing] = useState(false);
 
   // Track selection states
+  // playbackSrc differs from videoSrc once an alternate audio rendition is selected
+  const [playbackSrc, setPlaybackSrc] = useState(videoSrc);
+  const [audioSwitchProgress, setAudioSwitchProgress] = useState<number | null>(null);
+  const pendingResumeRef = useRef<{ time: number; playing: boolean } | null>(null);
   const [currentAudioTrack, setCurrentAudioTrack] = useState<number>(0);
   const [currentSubtitleTrack, setCurrentSubtitleTrack] = useState<number>(-1); // -1 = off
   const [showAudioTrackMenu, setShowAudioTrackMenu] = useState(false);
   const [showSubtitleTrackMenu, setShowSubtitleTrackMenu] = useState(false);
+  const [showChapterMenu, setShowChapterMenu] = useState(false);
+  const [showQueueMenu, setShowQueueMenu] = useState(false);
+  const hasQueue = queueNames.length > 1;
+  const hasNextInQueue = queueIndex < queueNames.length - 1;
+  const [sceneChapters, setSceneChapters] = useState<Chapter[] | null>(null);
+  // Container chapters win; detected scenes only fill in for files without any
+  const chapters = containerChapters?.length ? containerChapters : sceneChapters;
+  const chapterLabel = chapters === sceneChapters ? 'Scenes' : 'Chapters';
+  const [showMediaInfo, setShowMediaInfo] = useState(false);
+  const [showClipExport, setShowClipExport] = useState(false);
+  // A/B range for clip export, in seconds
+  const [clipIn, setClipIn] = useState<number | null>(null);
+  const [clipOut, setClipOut] = useState<number | null>(null);
+  const [screenshotNotice, setScreenshotNotice] = useState<string | null>(null);
+  const screenshotNoticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
+  const [mediaInfoError, setMediaInfoError] = useState<string | null>(null);
+  const [measuredFrameRate, setMeasuredFrameRate] = useState<number | null>(null);
+  const frameRate = probedFrameRate ?? measuredFrameRate;
+  const [frameDisplay, setFrameDisplay] = useState<FrameDisplay>('off');
+  // Text of the go-to-time field, null while it is closed
+  const [goToInput, setGoToInput] = useState<string | null>(null);
+  const [goToError, setGoToError] = useState(false);
 
   // Initialize video metadata and audio context
   useEffect(() => {
@@ -139,14 +232,26 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
             vocalsFilter.Q.value = 1;
             vocalsFilterRef.current = vocalsFilter;
 
-            // Connect the nodes: source -> bass -> treble -> vocals -> destination
+            const normalizationGain = audioContext.createGain();
+            normalizationGainRef.current = normalizationGain;
+
+            const limiter = audioContext.createDynamicsCompressor();
+            limiter.knee.value = 0;
+            limiter.attack.value = 0.003;
+            limiter.release.value = 0.25;
+            limiterRef.current = limiter;
+
+            // Connect the nodes: source -> bass -> treble -> vocals -> normalization -> limiter -> destination
             source.connect(bassFilter);
             bassFilter.connect(trebleFilter);
             trebleFilter.connect(vocalsFilter);
-            vocalsFilter.connect(audioContext.destination);
+            vocalsFilter.connect(normalizationGain);
+            normalizationGain.connect(limiter);
+            limiter.connect(audioContext.destination);
 
             // Apply initial filter levels
             updateAudioFilters();
+            applyNormalization();
           }
         } catch (error) {
           console.error("Error initializing audio context:", error);
@@ -174,6 +279,61 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     }
   }, [videoSrc]);
 
+  // Reset to the original rendition when a new video is loaded
+  useEffect(() => {
+    setPlaybackSrc(videoSrc);
+    setCurrentAudioTrack(0);
+  }, [videoSrc]);
+
+  // Attach hls.js when the current source is an HLS stream
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isHlsSource(playbackSrc)) return;
+
+    // Safari (and anything else with native HLS) can take the playlist as src
+    if (video.canPlayType('application/vnd.apple.mpegurl') || !Hls.isSupported()) {
+      video.src = playbackSrc;
+      return;
+    }
+
+    // Streams still being transcoded are EVENT playlists, which hls.js treats as live,
+    // so start from the beginning instead of the live edge
+    const hls = new Hls({ startPosition: 0 });
+    hls.loadSource(playbackSrc);
+    hls.attachMedia(video);
+
+    return () => {
+      hls.destroy();
+    };
+  }, [playbackSrc]);
+
+  // Without a probed frame rate, measure one from the media times of the frames presented during
+  // playback. The median duration ignores frames the browser dropped, and other speeds are skipped
+  // since they drop frames on purpose
+  useEffect(() => {
+    const video = videoRef.current;
+    if (probedFrameRate || !video || !('requestVideoFrameCallback' in video)) return;
+
+    const durations: number[] = [];
+    let lastMediaTime: number | null = null;
+    let handle = 0;
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      const duration = lastMediaTime !== null ? metadata.mediaTime - lastMediaTime : 0;
+      if (duration > 0 && duration < 0.5 && video.playbackRate === 1) durations.push(duration);
+      lastMediaTime = metadata.mediaTime;
+
+      if (durations.length >= FRAME_RATE_SAMPLES) {
+        durations.sort((a, b) => a - b);
+        setMeasuredFrameRate(snapFrameRate(1 / durations[Math.floor(durations.length / 2)]));
+        return;
+      }
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+    handle = video.requestVideoFrameCallback(onFrame);
+
+    return () => video.cancelVideoFrameCallback(handle);
+  }, [probedFrameRate]);
+
   // Enable ambient mode by default if ambient source is available
   useEffect(() => {
     if (ambientSrc) {
@@ -255,7 +415,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const MAX_HEIGHT = 240;
+    // Match the ambient rendition's resolution when there is one
+    const MAX_HEIGHT = ambientProfile?.height ?? 240;
 
     // Set canvas size once (prevents jitter from resizing)
     const aspect = (video.videoWidth || 16) / (video.videoHeight || 9);
@@ -280,13 +441,36 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     return () => {
       cancelAnimationFrame(rafId);
     };
-  }, [ambientModeEnabled, isFullscreen, videoSrc]);
+  }, [ambientModeEnabled, isFullscreen, videoSrc, ambientProfile]);
 
   // Update audio filters when levels change
   useEffect(() => {
     updateAudioFilters();
   }, [bassLevel, trebleLevel, vocalsLevel]);
 
+  // Load the loudness analysis, waiting for the server to finish it if needed
+  useEffect(() => {
+    setLoudnessInfo(null);
+    if (!loudness) return;
+
+    let cancelled = false;
+    fetchGeneratedAsset(loudness)
+      .then(res => res.json())
+      .then((data: Loudness) => {
+        if (!cancelled) setLoudnessInfo(data);
+      })
+      .catch(err => console.warn('Loudness analysis unavailable:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loudness]);
+
+  useEffect(() => {
+    normalizationDbRef.current = normalizationEnabled && loudnessInfo ? normalizationGainDb(loudnessInfo) : 0;
+    applyNormalization();
+  }, [loudnessInfo, normalizationEnabled]);
+
   // Sync video element volume/mute when 'volume' state changes
   useEffect(() => {
     if (videoRef.current) {
@@ -318,6 +502,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Typing in the go-to-time field isn't a shortcut
+      if (e.target instanceof HTMLInputElement && e.target.type === 'text') return;
       const key = e.key.toLowerCase();
       switch (key) {
         case ' ':
@@ -325,11 +511,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
           break
         case 'arrowleft':
           e.preventDefault();
-          skipBackward();
+          // Shift jumps by chapter (or detected scene) when the video has them
+          if (e.shiftKey && chapters?.length) previousChapter();
+          else skipBackward();
           break
         case 'arrowright':
           e.preventDefault();
-          skipForward();
+          if (e.shiftKey && chapters?.length) nextChapter();
+          else skipForward();
           break
         case 'arrowup':
           e.preventDefault();
@@ -346,8 +535,36 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
         case 'f':
           toggleFullscreen()
           break
+        case 'n':
+          // Shift+N / Shift+P move through the play queue
+          if (e.shiftKey && hasNextInQueue) onSelectQueueItem?.(queueIndex + 1)
+          break
         case 'p':
-          togglePiP()
+          if (e.shiftKey && hasQueue) {
+            if (queueIndex > 0) onSelectQueueItem?.(queueIndex - 1)
+          } else {
+            togglePiP()
+          }
+          break
+        case 's':
+          // Shift saves a JPEG instead of a lossless PNG
+          takeScreenshot(e.shiftKey ? 'jpeg' : 'png')
+          break
+        case 'i':
+          if (clipUrl) markClipIn()
+          break
+        case 'o':
+          if (clipUrl) markClipOut()
+          break
+        case ',':
+          stepFrame(-1)
+          break
+        case '.':
+          stepFrame(1)
+          break
+        case 'g':
+          e.preventDefault();
+          openGoTo()
           break
         default:
           // Check for number keys 0-9
@@ -361,7 +578,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
 
     document.addEventListener('keydown', handleKeyDown)
     return () => document.removeEventListener('keydown', handleKeyDown)
-  }, [isPlaying]);
+  }, [isPlaying, chapters, queueIndex, queueNames, frameRate, frameDisplay, clipUrl, frameUrl, videoSrc, videoName]);
 
   // Auto-hide controls
   useEffect(() => {
@@ -471,7 +688,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
   // Close menus when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (showSettingsMenu || showSpeedMenu || showAudioControlsMenu) {
+      if (showSettingsMenu || showSpeedMenu || showAudioControlsMenu || showChapterMenu || showMediaInfo || showClipExport || showQueueMenu) {
         // Check if click is outside any menu
         const isOutside = !event.composedPath().some(el => {
           if (!(el instanceof HTMLElement)) return false;
@@ -483,6 +700,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
           setShowSettingsMenu(false);
           setShowSpeedMenu(false);
           setShowAudioControlsMenu(false);
+          setShowChapterMenu(false);
+          setShowMediaInfo(false);
+          setShowClipExport(false);
+          setShowQueueMenu(false);
         }
       }
     };
@@ -492,9 +713,97 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showSettingsMenu, showSpeedMenu, showAudioControlsMenu]);
+  }, [showSettingsMenu, showSpeedMenu, showAudioControlsMenu, showChapterMenu, showMediaInfo, showClipExport, showQueueMenu]);
+
+  // Fetch media info the first time the panel is opened for this file
+  useEffect(() => {
+    setMediaInfo(null);
+    setMediaInfoError(null);
+  }, [mediaInfoUrl]);
+
+  useEffect(() => {
+    if (!showMediaInfo || !mediaInfoUrl || mediaInfo) return;
+
+    let cancelled = false;
+    mediaServerFetch(mediaInfoUrl)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load media info');
+        if (!cancelled) setMediaInfo(data);
+      })
+      .catch(err => {
+        if (!cancelled) setMediaInfoError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showMediaInfo, mediaInfoUrl, mediaInfo]);
+
+  // Load the sprite sheet index, waiting for the server to finish generating it if needed
+  useEffect(() => {
+    setThumbnailCues(null);
+    if (!thumbnails) return;
+
+    let cancelled = false;
+    loadThumbnails(thumbnails)
+      .then(cues => {
+        if (cancelled || !cues.length) return;
+        // Warm the cache so the first hover doesn't flash an empty tile
+        new Set(cues.map(cue => cue.url)).forEach(url => { new Image().src = url; });
+        setThumbnailCues(cues);
+      })
+      .catch(err => console.warn('Seek thumbnails unavailable, falling back to frame seeking:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnails]);
 
-  // Thumbnail preview generation
+  // Load detected scenes once the server has finished finding them
+  useEffect(() => {
+    setSceneChapters(null);
+    if (!scenes) return;
+
+    let cancelled = false;
+    fetchGeneratedAsset(scenes)
+      .then(res => res.json())
+      .then((data: Chapter[]) => {
+        // A single scene means no cuts were found, which is no help for navigation
+        if (!cancelled && data.length > 1) setSceneChapters(data);
+      })
+      .catch(err => console.warn('Scene detection unavailable:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scenes]);
+
+  // Load the audio envelope; without it the progress bar is shown on its own
+  useEffect(() => {
+    setWaveformData(null);
+    if (!waveform) return;
+
+    let cancelled = false;
+    fetchGeneratedAsset(waveform)
+      .then(res => res.json())
+      .then((data: Waveform) => {
+        if (!cancelled && data.peak?.length) setWaveformData(data);
+      })
+      .catch(err => console.warn('Waveform unavailable:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [waveform]);
+
+  // Redraw the waveform as playback advances and when the bar changes size
+  useEffect(() => {
+    if (!waveformData || !waveformCanvasRef.current) return;
+    drawWaveform(waveformCanvasRef.current, waveformData, duration ? currentTime / duration : 0);
+  }, [waveformData, currentTime, duration, isFullscreen]);
+
+  // Thumbnail preview generation (fallback when there are no sprite sheets)
   useEffect(() => {
     const video = videoRef.current;
     const previewVideo = previewVideoRef.current;
@@ -502,9 +811,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
 
     if (!video || !previewVideo || !canvas) return;
 
-    // Don't try to generate thumbnails for local files
+    if (thumbnailCues) {
+      previewVideo.removeAttribute('src');
+      return;
+    }
+
+    // Don't try to generate thumbnails for local files or HLS streams (MediaSource can't be shared)
     const isLocalFile = videoSrc.startsWith('file://');
-    if (isLocalFile) {
+    if (isLocalFile || isHlsSource(videoSrc)) {
       return;
     }
 
@@ -540,7 +854,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     return () => {
       previewVideo.removeEventListener('seeked', handleSeeked);
     };
-  }, [videoSrc]);
+  }, [videoSrc, thumbnailCues]);
 
   // Add fullscreen change detection
   useEffect(() => {
@@ -561,33 +875,62 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     };
   }, [ambientModeEnabled]);
 
-  // Apply selected tracks when changed
+  // Apply selected subtitle track when changed (audio tracks are switched via renditions)
   useEffect(() => {
-    const video = videoRef.current as any;
+    const video = videoRef.current;
     if (!video) return;
 
-    // Audio tracks (browser support varies)
-    const audioTracks = video.audioTracks as any;
-    if (audioTracks && typeof audioTracks.length === 'number') {
-      for (let i = 0; i < audioTracks.length; i++) {
-        audioTracks[i].enabled = i === currentAudioTrack;
-      }
-    }
-
-    // Subtitle tracks (TextTrackList)
+    // Subtitle tracks (TextTrackList) - matched by id since bitmap subtitles have no <track>
     const textTracks = video.textTracks as TextTrackList;
     if (textTracks && textTracks.length) {
       for (let i = 0; i < textTracks.length; i++) {
-        const mode = (i === currentSubtitleTrack ? 'showing' : 'disabled');
+        const mode = (textTracks[i].id === `subtitle-${currentSubtitleTrack}` ? 'showing' : 'disabled');
         textTracks[i].mode = mode as TextTrackMode;
       }
     }
-  }, [currentAudioTrack, currentSubtitleTrack]);
+  }, [currentSubtitleTrack]);
+
+  // Swap the main video source in place, keeping the element (and its Web Audio graph) alive
+  const switchSource = (src: string) => {
+    const video = videoRef.current;
+    if (!video) return;
+    pendingResumeRef.current = { time: video.currentTime, playing: !video.paused };
+    setPlaybackSrc(src);
+  };
 
-  const handleAudioTrackSelect = (idx: number) => {
-    setCurrentAudioTrack(idx);
+  const handleAudioTrackSelect = async (idx: number) => {
     setShowAudioTrackMenu(false);
     setShowSettingsMenu(false);
+    if (idx === currentAudioTrack || audioSwitchProgress !== null) return;
+
+    // The first track is the one the original file plays by default
+    if (idx === 0) {
+      switchSource(videoSrc);
+      setCurrentAudioTrack(idx);
+      return;
+    }
+
+    const renditionUrl = audioTracksInfo?.[idx]?.renditionUrl;
+    if (!renditionUrl) {
+      console.warn('No audio rendition available for track', idx);
+      return;
+    }
+
+    try {
+      setAudioSwitchProgress(0);
+      const res = await mediaServerFetch(renditionUrl, { method: 'POST' });
+      if (!res.ok) throw new Error('Failed to request audio rendition');
+      const data = await res.json();
+      if (!data.ready) {
+        await waitForJob(new URL(`/jobs/${data.id}/events`, renditionUrl).href, job => setAudioSwitchProgress(job.progress));
+      }
+      switchSource(new URL(data.videoUrl, renditionUrl).href);
+      setCurrentAudioTrack(idx);
+    } catch (err) {
+      console.error('Failed to switch audio track', err);
+    } finally {
+      setAudioSwitchProgress(null);
+    }
   };
 
   const handleSubtitleTrackSelect = (idx: number) => {
@@ -612,6 +955,18 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     }
   };
 
+  const applyNormalization = () => {
+    const gainDb = normalizationDbRef.current;
+    if (normalizationGainRef.current) {
+      normalizationGainRef.current.gain.value = Math.pow(10, gainDb / 20);
+    }
+    // Only limit when normalization is active, otherwise leave the signal untouched
+    if (limiterRef.current) {
+      limiterRef.current.threshold.value = gainDb ? -1 : 0;
+      limiterRef.current.ratio.value = gainDb ? 20 : 1;
+    }
+  };
+
   const startHideControlsTimer = () => {
     clearHideControlsTimer()
     hideControlsTimeout.current = window.setTimeout(() => {
@@ -677,6 +1032,109 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     }
   }
 
+  // Moves one frame while paused, pausing first when playing. Does nothing until the frame rate is known
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current
+    if (!video || !frameRate || !Number.isFinite(video.duration)) return
+    if (!video.paused) {
+      video.pause()
+      setIsPlaying(false)
+    }
+    const lastFrame = Math.max(0, Math.ceil(video.duration * frameRate) - 1)
+    video.currentTime = frameTime(Math.min(frameAt(video.currentTime, frameRate) + direction, lastFrame), frameRate)
+  }
+
+  const cycleFrameDisplay = () => {
+    setFrameDisplay(prev => (prev === 'off' ? 'timecode' : prev === 'timecode' ? 'frames' : 'off'))
+  }
+
+  // Opens the go-to-time field holding the current position in the format on display
+  const openGoTo = () => {
+    const time = videoRef.current?.currentTime ?? currentTime
+    let text = formatTime(time)
+    if (frameRate && frameDisplay === 'timecode') text = formatSmpte(time, frameRate)
+    else if (frameRate && frameDisplay === 'frames') text = `${frameAt(time, frameRate)}f`
+    setGoToInput(text)
+    setGoToError(false)
+  }
+
+  const goToTime = () => {
+    const video = videoRef.current
+    const time = goToInput !== null ? parseTimecode(goToInput, frameRate) : null
+    if (!video || time === null || !(time <= video.duration)) {
+      setGoToError(true)
+      return
+    }
+    video.currentTime = frameRate ? Math.min(frameTime(frameAt(time, frameRate), frameRate), video.duration) : time
+    setGoToInput(null)
+  }
+
+  const showScreenshotNotice = (message: string) => {
+    setScreenshotNotice(message)
+    if (screenshotNoticeTimerRef.current) clearTimeout(screenshotNoticeTimerRef.current)
+    screenshotNoticeTimerRef.current = setTimeout(() => setScreenshotNotice(null), 2500)
+  }
+
+  // HLS renditions may be transcoded below the original resolution, so those frames come from the server
+  const takeScreenshot = async (format: ScreenshotFormat) => {
+    const video = videoRef.current
+    if (!video) return
+    const time = video.currentTime
+    try {
+      const blob = await captureFrame(video, format, { frameUrl, preferServer: isHlsSource(videoSrc) })
+      const saved = await saveBlob(blob, screenshotFileName(videoName, time, format))
+      if (saved) showScreenshotNotice('Screenshot saved')
+    } catch (err) {
+      console.error('Screenshot failed:', err)
+      showScreenshotNotice(err instanceof Error ? err.message : 'Screenshot failed')
+    }
+  }
+
+  // Setting one end of the clip past the other moves the other end out of the way
+  const markClipIn = () => {
+    if (!videoRef.current) return
+    const time = videoRef.current.currentTime
+    setClipIn(time)
+    setClipOut(prev => prev !== null && prev <= time ? null : prev)
+  }
+
+  const markClipOut = () => {
+    if (!videoRef.current) return
+    const time = videoRef.current.currentTime
+    setClipOut(time)
+    setClipIn(prev => prev !== null && prev >= time ? null : prev)
+  }
+
+  const seekToChapter = (chapter: Chapter) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = chapter.start
+    }
+    setShowChapterMenu(false)
+    setShowSettingsMenu(false)
+  }
+
+  const nextChapter = () => {
+    if (!videoRef.current || !chapters) return
+    const time = videoRef.current.currentTime
+    const next = chapters.find(chapter => chapter.start > time + 0.5)
+    if (next) seekToChapter(next)
+  }
+
+  // Like a CD player: restart the current chapter unless we're at its very beginning
+  const previousChapter = () => {
+    if (!videoRef.current || !chapters) return
+    const time = videoRef.current.currentTime
+    const current = findChapter(time)
+    const index = current ? chapters.indexOf(current) : -1
+    if (current && time - current.start > 3) seekToChapter(current)
+    else if (index > 0) seekToChapter(chapters[index - 1])
+    else if (videoRef.current) videoRef.current.currentTime = 0
+  }
+
+  const findChapter = (time: number) => {
+    return chapters?.find(chapter => time >= chapter.start && time < chapter.end) ?? null
+  }
+
   const handleTimeUpdate = () => {
     if (videoRef.current) {
       setCurrentTime(videoRef.current.currentTime);
@@ -698,6 +1156,14 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
       setDuration(videoRef.current.duration)
     }
 
+    // Restore position and play state after switching audio renditions
+    if (videoRef.current && pendingResumeRef.current) {
+      const { time, playing } = pendingResumeRef.current;
+      pendingResumeRef.current = null;
+      videoRef.current.currentTime = time;
+      if (playing) videoRef.current.play().catch(() => { });
+    }
+
     // Initialize ambient video when main video metadata is loaded
     if (videoRef.current && ambientCanvasRef.current && ambientModeEnabled) {
       ambientCanvasRef.current.width = videoRef.current.videoWidth;
@@ -744,7 +1210,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     if (previewPos + previewWidth > width) previewPos = width - previewWidth;
     setPreviewPosition(previewPos);
 
-    if (previewVideoRef.current) {
+    if (previewVideoRef.current && !thumbnailCues) {
       try {
         const pv = previewVideoRef.current;
         pv.pause();
@@ -806,7 +1272,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
     setPreviewPosition(previewPos);
 
     // Generate the thumbnail preview for this time point
-    if (previewVideoRef.current) {
+    if (previewVideoRef.current && !thumbnailCues) {
       try {
         const pv = previewVideoRef.current;
         pv.pause();
@@ -889,6 +1355,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
   };
 
   // Format time in mm:ss
+  const previewCue = thumbnailCues && previewTime !== null ? findThumbnailCue(thumbnailCues, previewTime) : null;
+
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60)
     const secs = Math.floor(seconds % 60)
@@ -920,7 +1388,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
           loop
           playsInline
           crossOrigin="anonymous"
-          className="fixed inset-0 -z-10 w-full h-full object-cover blur-3xl scale-110 opacity-60 pointer-events-none"
+          className={`fixed inset-0 -z-10 w-full h-full object-cover scale-110 opacity-60 pointer-events-none ${
+            // A rendition with blur baked in needs less of it at draw time
+            ambientSrc && ambientProfile?.blur ? 'blur-xl' : 'blur-3xl'
+          }`}
           onError={() => {
             if (ambientVideoRef.current && ambientSrc) {
               // Fallback to main video if ambient not ready yet
@@ -955,15 +1426,31 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
         <video
           ref={videoRef}
           className="w-full h-full object-cover bg-black"
-          src={videoSrc}
+          src={isHlsSource(playbackSrc) ? undefined : playbackSrc}
           crossOrigin="anonymous"
           onClick={togglePlayPause}
           onTimeUpdate={handleTimeUpdate}
           onLoadedMetadata={handleLoadedMetadata}
-          onEnded={() => setIsPlaying(false)}
+          autoPlay={autoPlay}
+          onEnded={() => {
+            setIsPlaying(false);
+            // Continue with the next video of the queue
+            if (hasNextInQueue) onSelectQueueItem?.(queueIndex + 1);
+          }}
           onPlay={() => setIsPlaying(true)}
           onPause={() => setIsPlaying(false)}
-        />
+        >
+          {subtitleTracksInfo?.map((sub, idx) => sub.url && (
+            <track
+              key={sub.index}
+              id={`subtitle-${idx}`}
+              kind="subtitles"
+              src={sub.url}
+              srcLang={sub.language}
+              label={`${sub.language} #${idx + 1}`}
+            />
+          ))}
+        </video>
 
         {/* Thumbnail preview canvas (hidden) */}
         <canvas ref={canvasRef} className="hidden" width="160" height="90" />
@@ -985,8 +1472,20 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
               <span className="text-sm text-white font-medium hidden sm:inline">Back</span>
             </button>
 
-            <div className="glass-effect rounded-full px-4 py-2">
-              <h3 className="text-white text-sm font-medium truncate max-w-xs">{videoFileName}</h3>
+            <div className="flex items-center gap-2">
+              <div className="glass-effect rounded-full px-4 py-2">
+                <h3 className="text-white text-sm font-medium truncate max-w-xs">{videoFileName}</h3>
+              </div>
+              {hasQueue && (
+                <button
+                  onClick={() => setShowQueueMenu(!showQueueMenu)}
+                  className="glass-effect rounded-full px-3 py-2 hover:bg-white/20 transition-colors flex items-center gap-2"
+                  title="Play queue (Shift+N / Shift+P)"
+                >
+                  <QueueListIcon className="w-5 h-5 text-white" />
+                  <span className="text-xs text-white tabular-nums">{queueIndex + 1} / {queueNames.length}</span>
+                </button>
+              )}
             </div>
 
             {/* Volume control */}
@@ -1053,10 +1552,42 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
                 <ForwardIcon className="w-5 h-5 text-white" />
               </button>
 
-              {/* Time & progress */}
-              <span className="text-xs font-medium text-white tabular-nums w-12 text-right select-none">
-                {formatTime(currentTime)}
-              </span>
+              {/* Time & progress. Clicking the time opens a field to jump to a time or timecode */}
+              {goToInput !== null ? (
+                <input
+                  type="text"
+                  autoFocus
+                  value={goToInput}
+                  onChange={e => {
+                    setGoToInput(e.target.value)
+                    setGoToError(false)
+                  }}
+                  onFocus={e => e.target.select()}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') goToTime()
+                    else if (e.key === 'Escape') setGoToInput(null)
+                  }}
+                  onBlur={() => setGoToInput(null)}
+                  aria-label="Go to time"
+                  title={frameRate ? 'm:ss, h:mm:ss.mmm, hh:mm:ss:ff or a frame number like 1234f' : 'm:ss or h:mm:ss.mmm'}
+                  className={`text-xs font-medium text-white tabular-nums w-24 px-1.5 py-0.5 rounded-md bg-white/10 outline-none ${
+                    goToError ? 'ring-1 ring-red-400' : 'focus:ring-1 focus:ring-white/40'
+                  }`}
+                />
+              ) : (
+                <button
+                  onClick={openGoTo}
+                  title="Go to time (G)"
+                  className="text-xs font-medium text-white tabular-nums w-12 text-right select-none"
+                >
+                  {formatTime(currentTime)}
+                </button>
+              )}
+              {frameRate !== null && frameDisplay !== 'off' && (
+                <span className="text-xs text-white/60 tabular-nums select-none">
+                  {frameDisplay === 'timecode' ? formatSmpte(currentTime, frameRate) : `${frameAt(currentTime, frameRate)}f`}
+                </span>
+              )}
 
               {/* Progress bar with preview */}
               <div className="relative flex-1 mx-2">
@@ -1067,7 +1598,18 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
                     className="absolute -top-24 left-0 preview-thumbnail flex flex-col items-center"
                     style={{ transform: `translateX(${previewPosition}px)` }}
                   >
-                    {previewImage ? (
+                    {previewCue ? (
+                      <div className="w-40 h-24 overflow-hidden bg-black flex items-center justify-center">
+                        <div
+                          style={{
+                            width: previewCue.width,
+                            height: previewCue.height,
+                            backgroundImage: `url("${previewCue.url}")`,
+                            backgroundPosition: `-${previewCue.x}px -${previewCue.y}px`,
+                          }}
+                        />
+                      </div>
+                    ) : previewImage ? (
                       <div className="w-40 h-24 overflow-hidden">
                         <img
                           src={previewImage}
@@ -1084,6 +1626,9 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
                         <span className="text-xs text-white/70">Loading...</span>
                       </div>
                     )}
+                    {findChapter(previewTime) && (
+                      <span className="text-xs text-white font-medium pt-1 px-2 max-w-40 truncate">{findChapter(previewTime)?.title}</span>
+                    )}
                     <span className="text-xs text-white py-1 px-2">{formatTime(previewTime)}</span>
                   </div>
                 )}
@@ -1096,10 +1641,41 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
                   onMouseLeave={handleProgressBarLeave}
                   onMouseDown={handleScrubStart}
                 >
+                  {/* Audio waveform behind the track, so loud and quiet passages are visible while scrubbing */}
+                  {waveformData && (
+                    <canvas
+                      ref={waveformCanvasRef}
+                      className="absolute left-0 top-1/2 -translate-y-1/2 w-full h-6 pointer-events-none"
+                    />
+                  )}
                   <div
-                    className="progress-bar rounded-full h-full"
+                    className="progress-bar relative rounded-full h-full"
                     style={{ width: `${(currentTime / duration) * 100}%` }}
                   />
+                  {/* Clip export range */}
+                  {duration > 0 && clipIn !== null && (
+                    <div
+                      className="absolute top-0 h-full bg-yellow-400/70 rounded-full pointer-events-none"
+                      style={{
+                        left: `${(clipIn / duration) * 100}%`,
+                        width: clipOut !== null ? `${((clipOut - clipIn) / duration) * 100}%` : '2px',
+                      }}
+                    />
+                  )}
+                  {duration > 0 && clipIn === null && clipOut !== null && (
+                    <div
+                      className="absolute top-0 h-full w-0.5 bg-yellow-400/70 pointer-events-none"
+                      style={{ left: `${(clipOut / duration) * 100}%` }}
+                    />
+                  )}
+                  {/* Chapter boundaries */}
+                  {duration > 0 && chapters?.filter(chapter => chapter.start > 0).map((chapter, idx) => (
+                    <div
+                      key={idx}
+                      className="absolute top-0 h-full w-0.5 bg-black/70 pointer-events-none"
+                      style={{ left: `${(chapter.start / duration) * 100}%` }}
+                    />
+                  ))}
                 </div>
               </div>
 
@@ -1109,6 +1685,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
 
               {/* Settings / fullscreen */}
               <div className="flex items-center gap-4 items-center">
+                <button
+                  onClick={(e) => takeScreenshot(e.shiftKey ? 'jpeg' : 'png')}
+                  title="Screenshot (S, Shift+S for JPEG)"
+                  aria-label="Take screenshot"
+                >
+                  <CameraIcon className="w-5 h-5 text-white" />
+                </button>
                 <div className="flex items-center">
                   <button onClick={handleSettingsClick}>
                     <Cog6ToothIcon className="w-5 h-5 text-white" />
@@ -1144,7 +1727,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
                           }}
                         >
                           <div>Audio Controls</div>
-                          <div className="text-xs text-white/70">Bass, Treble, Vocals</div>
+                          <div className="text-xs text-white/70">Bass, Treble, Vocals{loudness ? ', Normalization' : ''}</div>
                         </button>
                         <button
                           className="p-3 text-left text-sm text-white hover:bg-white/20 transition"
@@ -1153,6 +1736,15 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
                           <div>Ambient Mode</div>
                           <div className="text-xs text-white/70">{ambientModeEnabled ? 'Enabled' : 'Disabled'}</div>
                         </button>
+                        {frameRate !== null && (
+                          <button
+                            className="p-3 text-left text-sm text-white hover:bg-white/20 transition"
+                            onClick={cycleFrameDisplay}
+                          >
+                            <div>Timecode</div>
+                            <div className="text-xs text-white/70">{FRAME_DISPLAY_LABELS[frameDisplay]} · {frameRate} fps</div>
+                          </button>
+                        )}
                         {audioTracksInfo && audioTracksInfo.length > 1 && (
                           <button
                             className="p-3 text-left text-sm text-white hover:bg-white/20 transition"
@@ -1182,6 +1774,51 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
                             <div className="text-xs text-white/70">{currentSubtitleTrack === -1 ? 'Off' : subtitleTracksInfo[currentSubtitleTrack]?.language}</div>
                           </button>
                         )}
+
+                        {chapters && chapters.length > 0 && (
+                          <button
+                            className="p-3 text-left text-sm text-white hover:bg-white/20 transition"
+                            onClick={() => {
+                              setShowChapterMenu(true);
+                              setShowSettingsMenu(false);
+                              setShowSpeedMenu(false);
+                              setShowAudioControlsMenu(false);
+                            }}
+                          >
+                            <div>{chapterLabel}</div>
+                            <div className="text-xs text-white/70 truncate">{findChapter(currentTime)?.title || `${chapters.length} ${chapterLabel.toLowerCase()}`}</div>
+                          </button>
+                        )}
+
+                        {mediaInfoUrl && (
+                          <button
+                            className="p-3 text-left text-sm text-white hover:bg-white/20 transition"
+                            onClick={() => {
+                              setShowMediaInfo(true);
+                              setShowSettingsMenu(false);
+                              setShowSpeedMenu(false);
+                              setShowAudioControlsMenu(false);
+                            }}
+                          >
+                            <div>Media Info</div>
+                            <div className="text-xs text-white/70">Codecs, resolution, bitrates</div>
+                          </button>
+                        )}
+
+                        {clipUrl && (
+                          <button
+                            className="p-3 text-left text-sm text-white hover:bg-white/20 transition"
+                            onClick={() => {
+                              setShowClipExport(true);
+                              setShowSettingsMenu(false);
+                              setShowSpeedMenu(false);
+                              setShowAudioControlsMenu(false);
+                            }}
+                          >
+                            <div>Export Clip</div>
+                            <div className="text-xs text-white/70">MP4, WebM, GIF, WebP</div>
+                          </button>
+                        )}
                       </div>
                     </div>
                   )}
@@ -1194,7 +1831,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
           </div>
 
           {/* Hidden preview video element for seek thumbnails */}
-          <video ref={previewVideoRef} src={videoSrc} muted playsInline className="hidden" preload="auto" />
+          <video ref={previewVideoRef} src={thumbnailCues || isHlsSource(videoSrc) ? undefined : videoSrc} muted playsInline className="hidden" preload="auto" />
         </motion.div>
 
         {/* Floating menus - separate from main controls */}
@@ -1216,6 +1853,12 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
               trebleLevel={trebleLevel}
               vocalsLevel={vocalsLevel}
               onLevelChange={handleAudioLevelChange}
+              normalization={loudness ? {
+                enabled: normalizationEnabled,
+                loudness: loudnessInfo,
+                gainDb: loudnessInfo ? normalizationGainDb(loudnessInfo) : null,
+              } : null}
+              onNormalizationToggle={() => setNormalizationEnabled(prev => !prev)}
             />
           </div>
         )}
@@ -1252,8 +1895,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
               {subtitleTracksInfo.map((sub, idx) => (
                 <button
                   key={idx}
-                  className="p-3 text-left text-sm text-white hover:bg-white/20 transition flex justify-between"
+                  className="p-3 text-left text-sm text-white hover:bg-white/20 transition flex justify-between disabled:text-white/40 disabled:hover:bg-transparent"
                   onClick={() => handleSubtitleTrackSelect(idx)}
+                  disabled={!sub.url}
+                  title={sub.url ? undefined : `${sub.codec} subtitles cannot be displayed`}
                 >
                   <span>{sub.language || 'Subtitle'} #{idx + 1}</span>
                   {currentSubtitleTrack === idx && <span>✓</span>}
@@ -1263,6 +1908,83 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoSrc, ambientSrc, audioTr
           </div>
         )}
 
+        {showMediaInfo && (
+          <div className="absolute bottom-16 right-8 z-50 settings-menu">
+            <MediaInfoPanel info={mediaInfo} error={mediaInfoError} onClose={() => setShowMediaInfo(false)} />
+          </div>
+        )}
+
+        {showClipExport && clipUrl && (
+          <div className="absolute bottom-16 right-8 z-50 settings-menu">
+            <ClipExportPanel
+              clipUrl={clipUrl}
+              videoName={videoName}
+              clipIn={clipIn}
+              clipOut={clipOut}
+              onSetIn={markClipIn}
+              onSetOut={markClipOut}
+              onClear={() => {
+                setClipIn(null);
+                setClipOut(null);
+              }}
+              onClose={() => setShowClipExport(false)}
+            />
+          </div>
+        )}
+
+        {/* Play queue */}
+        {showQueueMenu && hasQueue && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 z-50 settings-menu">
+            <div className="glass-effect flex flex-col divide-y divide-white/10 rounded-2xl overflow-hidden max-h-80 overflow-y-auto w-72">
+              {queueNames.map((name, idx) => (
+                <button
+                  key={idx}
+                  className={`p-3 text-left text-sm text-white hover:bg-white/20 transition flex gap-3 ${idx === queueIndex ? 'bg-white/20' : ''}`}
+                  onClick={() => {
+                    setShowQueueMenu(false);
+                    if (idx !== queueIndex) onSelectQueueItem?.(idx);
+                  }}
+                >
+                  <span className="text-xs text-white/70 tabular-nums w-6 text-right">{idx + 1}</span>
+                  <span className="truncate">{name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Chapter menu */}
+        {showChapterMenu && chapters && (
+          <div className="absolute bottom-16 right-8 z-50 settings-menu">
+            <div className="glass-effect flex flex-col divide-y divide-white/10 rounded-2xl overflow-hidden max-h-80 overflow-y-auto w-64">
+              {chapters.map((chapter, idx) => (
+                <button
+                  key={idx}
+                  className="p-3 text-left text-sm text-white hover:bg-white/20 transition flex justify-between gap-3"
+                  onClick={() => seekToChapter(chapter)}
+                >
+                  <span className="truncate">{chapter.title}</span>
+                  <span className="text-xs text-white/70 tabular-nums">{formatTime(chapter.start)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Screenshot result */}
+        {screenshotNotice && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 glass-effect rounded-full px-4 py-2 pointer-events-none">
+            <span className="text-xs text-white">{screenshotNotice}</span>
+          </div>
+        )}
+
+        {/* Audio rendition preparation indicator */}
+        {audioSwitchProgress !== null && (
+          <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 glass-effect rounded-full px-4 py-2 pointer-events-none">
+            <span className="text-xs text-white">Switching audio track… {audioSwitchProgress}%</span>
+          </div>
+        )}
+
         {/* Playback controls - skip forward/backward on tap */}
         <PlaybackControls
           onSkipBackward={skipBackward}
@@ -0,0 +1,29 @@
+import type { JobRecord } from '../types/job'
+import { waitForJob } from './jobs'
+import { mediaServerFetch } from './mediaServer'
+
+export type ClipFormat = 'mp4' | 'webm' | 'gif' | 'webp'
+
+// Animated images are capped server-side as well
+export const MAX_IMAGE_CLIP_LENGTH = 30
+
+// Asks the media server to export [start, end) of the video and waits for the file.
+// Resolves to the absolute url of the exported clip
+export async function exportClip(
+  clipUrl: string,
+  range: { start: number; end: number; format: ClipFormat },
+  onUpdate?: (job: JobRecord) => void
+): Promise<string> {
+  const res = await mediaServerFetch(clipUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(range),
+  })
+  const data = await res.json()
+  if (!res.ok) throw new Error(data.error || `Export failed (${res.status})`)
+
+  if (!data.ready) {
+    await waitForJob(new URL(`/jobs/${data.id}/events`, clipUrl).href, onUpdate)
+  }
+  return new URL(data.url, clipUrl).href
+}
@@ -0,0 +1,59 @@
+import { mediaServerFetch } from './mediaServer'
+
+// Offers a server file for saving: a native save dialog in Electron, a download in the browser.
+// Resolves to false when the user cancels the dialog
+export async function saveFile(url: string, fileName: string): Promise<boolean> {
+  if (window.electron) {
+    const savedPath = await window.electron.invoke('dialog:saveFile', { url, defaultName: fileName })
+    return Boolean(savedPath)
+  }
+
+  // The server is on another origin, where <a download> is ignored, so download through a blob
+  const res = await mediaServerFetch(url)
+  if (!res.ok) throw new Error(`Download failed (${res.status})`)
+  return saveBlob(await res.blob(), fileName)
+}
+
+// Same as saveFile for data produced in the renderer, e.g. a captured frame
+export async function saveBlob(blob: Blob, fileName: string): Promise<boolean> {
+  if (window.electron) {
+    const data = new Uint8Array(await blob.arrayBuffer())
+    const savedPath = await window.electron.invoke('dialog:saveFile', { data, defaultName: fileName })
+    return Boolean(savedPath)
+  }
+
+  const blobUrl = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = blobUrl
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(blobUrl), 1000)
+  return true
+}
+
+// Files of a drop in the browser, with each dropped folder expanded into the files below it in natural
+// name order ("ep2" before "ep10"), like the media server does for folders opened in Electron. Takes the
+// entries rather than the DataTransfer, which is emptied once the drop event returns
+export async function readDroppedFiles(entries: (FileSystemEntry | null)[]): Promise<File[]> {
+  const files: File[] = []
+  for (const entry of entries) {
+    if (entry?.isDirectory) {
+      files.push(...await readDroppedFiles(await readDirectory(entry as FileSystemDirectoryEntry)))
+    } else if (entry?.isFile) {
+      files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)))
+    }
+  }
+  return files
+}
+
+// Entries of a folder except hidden ones. readEntries hands them out in batches, ending with an empty one
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (!batch.length) break
+    entries.push(...batch.filter(entry => !entry.name.startsWith('.')))
+  }
+  return entries.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }))
+}
@@ -0,0 +1,63 @@
+import type { JobEventType, JobRecord } from '../types/job'
+import type { GeneratedAsset } from '../types/video'
+import { mediaServerFetch, withMediaServerToken } from './mediaServer'
+
+const JOB_EVENT_TYPES: JobEventType[] = ['progress', 'encoder', 'completed', 'failed', 'cancelled']
+
+export const isJobFinished = (job: JobRecord) => ['completed', 'failed', 'cancelled'].includes(job.status)
+
+// Subscribes to a job's Server-Sent Events stream. onError fires when the stream
+// can't be (re)opened, e.g. the job is unknown to the server. Returns an unsubscribe function
+export function watchJob(
+  eventsUrl: string,
+  onEvent: (type: JobEventType, job: JobRecord) => void,
+  onError?: () => void
+): () => void {
+  const source = new EventSource(withMediaServerToken(eventsUrl))
+
+  JOB_EVENT_TYPES.forEach(type => {
+    source.addEventListener(type, e => {
+      const job: JobRecord = JSON.parse((e as MessageEvent).data)
+      // The server ends the stream after a final event; close so the browser doesn't reconnect
+      if (isJobFinished(job)) source.close()
+      onEvent(type, job)
+    })
+  })
+
+  source.onerror = () => {
+    // A dropped connection is retried by EventSource itself; a refused one closes it
+    if (source.readyState === EventSource.CLOSED) onError?.()
+  }
+
+  return () => source.close()
+}
+
+// Resolves once the job is playable, rejects when it fails, is cancelled or can't be found
+export function waitForJob(eventsUrl: string, onUpdate?: (job: JobRecord) => void): Promise<JobRecord> {
+  return new Promise((resolve, reject) => {
+    const stop = watchJob(
+      eventsUrl,
+      (_type, job) => {
+        if (job.ready) {
+          stop()
+          resolve(job)
+        } else if (isJobFinished(job)) {
+          reject(new Error(job.error || `Job ${job.status}`))
+        } else {
+          onUpdate?.(job)
+        }
+      },
+      () => reject(new Error('Unknown job'))
+    )
+  })
+}
+
+// Fetches a server-generated file, waiting for its job first if it is still running
+export async function fetchGeneratedAsset(asset: GeneratedAsset): Promise<Response> {
+  if (asset.jobId) {
+    await waitForJob(new URL(`/jobs/${asset.jobId}/events`, asset.url).href)
+  }
+  const res = await mediaServerFetch(asset.url)
+  if (!res.ok) throw new Error(`${asset.url} unavailable (${res.status})`)
+  return res
+}
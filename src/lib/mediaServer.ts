@@ -0,0 +1,27 @@
+// Origin of the local media server
+export const MEDIA_SERVER_ORIGIN = 'http://localhost:4000'
+
+// Per-launch secret the Electron preload hands over; absent in the browser build
+const mediaServerToken = () => window.electron?.mediaServerToken ?? null
+
+const isMediaServerUrl = (url: string | URL) => new URL(url, window.location.href).origin === MEDIA_SERVER_ORIGIN
+
+// fetch that authenticates requests to the media server; any other url is fetched as-is
+export function mediaServerFetch(url: string | URL, init: RequestInit = {}): Promise<Response> {
+  const token = mediaServerToken()
+  if (!token || !isMediaServerUrl(url)) return fetch(url, init)
+
+  const headers = new Headers(init.headers)
+  headers.set('X-Media-Token', token)
+  return fetch(url, { ...init, headers })
+}
+
+// Adds the token as a query parameter for requests that can't set headers, e.g. EventSource
+export function withMediaServerToken(url: string): string {
+  const token = mediaServerToken()
+  if (!token || !isMediaServerUrl(url)) return url
+
+  const authorized = new URL(url, window.location.href)
+  authorized.searchParams.set('token', token)
+  return authorized.href
+}
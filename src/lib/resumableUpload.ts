@@ -0,0 +1,147 @@
+import { MEDIA_SERVER_ORIGIN, mediaServerFetch } from './mediaServer'
+import { UploadError, readUploadError } from './uploads'
+import type { UploadErrorCode } from './uploads'
+
+// Files from this size on are sent in chunks, so a dropped connection costs one chunk rather than the upload
+export const RESUMABLE_UPLOAD_MIN_BYTES = 64 * 1024 * 1024
+
+const CHUNK_SIZE = 8 * 1024 * 1024
+
+// Attempts at one chunk before giving up, waiting twice as long after each failure
+const MAX_CHUNK_ATTEMPTS = 6
+const RETRY_DELAY_MS = 1000
+
+// Failures worth another attempt: no response, a corrupted chunk or a lost offset. Anything else
+// (expired upload, file too large) fails the same way again
+const RETRYABLE_CODES: Array<UploadErrorCode | null> = [null, 'CHECKSUM_MISMATCH', 'OFFSET_MISMATCH']
+
+export interface UploadProgress {
+  sent: number
+  total: number
+}
+
+export interface ResumableUploadOptions {
+  useFfmpeg: boolean
+  detectScenes: boolean
+  ambientProfile: string | null
+  onProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal // Aborting discards the upload on the server
+}
+
+// Unfinished uploads are remembered across reloads, keyed by what identifies the picked file
+const storageKey = (file: File) => `glassplay:upload:${file.name}:${file.size}:${file.lastModified}`
+
+const sha256 = async (data: ArrayBuffer) => new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Where the server is with an upload, or null when it doesn't know it (anymore)
+async function fetchOffset(uploadUrl: string, size: number): Promise<number | null> {
+  const res = await mediaServerFetch(uploadUrl, { method: 'HEAD', cache: 'no-store' })
+  if (!res.ok || Number(res.headers.get('Upload-Length')) !== size) return null
+  return Number(res.headers.get('Upload-Offset'))
+}
+
+async function createUpload(file: File): Promise<string> {
+  const res = await mediaServerFetch(`${MEDIA_SERVER_ORIGIN}/uploads`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileName: file.name, size: file.size, chunkSize: CHUNK_SIZE }),
+  })
+  if (!res.ok) throw await readUploadError(res)
+  return new URL((await res.json()).url, MEDIA_SERVER_ORIGIN).href
+}
+
+// Sends a file with the media server's resumable upload protocol: create, PATCH each chunk at the
+// server's offset (asking for it again with HEAD after a failure), then complete with a digest of all
+// chunks for the integrity check. An upload of the same file left unfinished earlier is continued.
+// Resolves to the same response as /video/upload-local
+export async function resumableUpload(file: File, options: ResumableUploadOptions): Promise<any> {
+  const { useFfmpeg, detectScenes, ambientProfile, onProgress, signal } = options
+  const key = storageKey(file)
+
+  let uploadUrl = localStorage.getItem(key)
+  let offset = uploadUrl ? await fetchOffset(uploadUrl, file.size).catch(() => null) : null
+  if (!uploadUrl || offset === null) {
+    uploadUrl = await createUpload(file)
+    offset = 0
+    localStorage.setItem(key, uploadUrl)
+  }
+
+  try {
+    // Chunks the server already has are only hashed, for the digest sent at the end
+    const digests: Uint8Array[] = []
+    let attempts = 0
+    while (digests.length * CHUNK_SIZE < file.size) {
+      signal?.throwIfAborted()
+      const start = digests.length * CHUNK_SIZE
+      const chunk = await file.slice(start, start + CHUNK_SIZE).arrayBuffer()
+      const digest = await sha256(chunk)
+
+      if (start < offset) {
+        digests.push(digest)
+        onProgress?.({ sent: Math.min(file.size, start + chunk.byteLength), total: file.size })
+        continue
+      }
+
+      try {
+        const res = await mediaServerFetch(uploadUrl, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(start),
+            'Upload-Checksum': `sha256 ${btoa(String.fromCharCode(...digest))}`,
+          },
+          body: chunk,
+          signal,
+        })
+        if (!res.ok) throw await readUploadError(res)
+
+        offset = Number(res.headers.get('Upload-Offset'))
+        digests.push(digest)
+        attempts = 0
+        onProgress?.({ sent: offset, total: file.size })
+      } catch (err) {
+        if (signal?.aborted) throw err
+        const retryable = err instanceof TypeError || (err instanceof UploadError && RETRYABLE_CODES.includes(err.code))
+        if (!retryable || ++attempts >= MAX_CHUNK_ATTEMPTS) throw err
+
+        console.warn(`Upload chunk at ${start} failed, retrying:`, err)
+        await wait(RETRY_DELAY_MS * 2 ** (attempts - 1))
+        // The chunk may have arrived even though the response didn't; continue from the server's offset
+        const serverOffset = await fetchOffset(uploadUrl, file.size).catch(() => null)
+        if (serverOffset !== null) {
+          offset = serverOffset
+          digests.length = Math.min(digests.length, Math.floor(offset / CHUNK_SIZE))
+        }
+      }
+    }
+
+    const combined = new Uint8Array(digests.length * 32)
+    digests.forEach((digest, i) => combined.set(digest, i * 32))
+    const res = await mediaServerFetch(`${uploadUrl}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ digest: toHex(await sha256(combined.buffer)), useFfmpeg, detectScenes, ambientProfile }),
+      signal,
+    })
+    if (!res.ok) {
+      const error = await readUploadError(res)
+      // Only an incomplete upload is still on the server to continue; anything else ended it
+      if (error.code !== 'UPLOAD_INCOMPLETE') localStorage.removeItem(key)
+      throw error
+    }
+    localStorage.removeItem(key)
+    return res.json()
+  } catch (err) {
+    if (signal?.aborted) {
+      localStorage.removeItem(key)
+      mediaServerFetch(uploadUrl, { method: 'DELETE' }).catch(() => {})
+    } else if (err instanceof UploadError && err.code === 'UPLOAD_NOT_FOUND') {
+      localStorage.removeItem(key)
+    }
+    throw err
+  }
+}
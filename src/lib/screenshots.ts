@@ -0,0 +1,60 @@
+import { mediaServerFetch } from './mediaServer'
+
+export type ScreenshotFormat = 'png' | 'jpeg'
+
+const MIME_TYPES: Record<ScreenshotFormat, string> = { png: 'image/png', jpeg: 'image/jpeg' }
+
+// HH-MM-SS.mmm, safe in file names on every platform
+export const formatTimecode = (seconds: number) => {
+  const ms = Math.round(seconds * 1000)
+  const h = Math.floor(ms / 3_600_000)
+  const m = Math.floor((ms % 3_600_000) / 60_000)
+  const s = Math.floor((ms % 60_000) / 1000)
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+  return `${pad(h)}-${pad(m)}-${pad(s)}.${pad(ms % 1000, 3)}`
+}
+
+// "movie.mkv" at 1:02.5 as png -> "movie 00-01-02.500.png"
+export const screenshotFileName = (videoName: string, time: number, format: ScreenshotFormat) => {
+  return `${videoName.replace(/\.[^.]+$/, '')} ${formatTimecode(time)}.${format === 'jpeg' ? 'jpg' : 'png'}`
+}
+
+// Draws the current frame at the element's native video size. Returns null when the canvas
+// is tainted by a cross-origin source or the browser refuses to encode it
+const captureFromElement = async (video: HTMLVideoElement, format: ScreenshotFormat): Promise<Blob | null> => {
+  if (!video.videoWidth || !video.videoHeight) return null
+  const canvas = document.createElement('canvas')
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(video, 0, 0)
+  try {
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, MIME_TYPES[format], 0.95))
+  } catch {
+    return null // SecurityError on a tainted canvas
+  }
+}
+
+// Captures the frame on screen at full resolution: from the <video> element when it can be read and
+// holds the original resolution, otherwise by asking the media server to grab the same timestamp
+export async function captureFrame(
+  video: HTMLVideoElement,
+  format: ScreenshotFormat,
+  options: { frameUrl?: string | null; preferServer?: boolean } = {}
+): Promise<Blob> {
+  const { frameUrl, preferServer } = options
+
+  if (!preferServer || !frameUrl) {
+    const blob = await captureFromElement(video, format)
+    if (blob) return blob
+  }
+  if (!frameUrl) throw new Error('This video does not allow screenshots')
+
+  const url = new URL(frameUrl)
+  url.searchParams.set('time', video.currentTime.toFixed(3))
+  url.searchParams.set('format', format)
+  const res = await mediaServerFetch(url)
+  if (!res.ok) throw new Error(`Frame grab failed (${res.status})`)
+  return res.blob()
+}
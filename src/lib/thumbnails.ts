@@ -0,0 +1,56 @@
+import type { ThumbnailsInfo } from '../types/video'
+import { fetchGeneratedAsset } from './jobs'
+
+export interface ThumbnailCue {
+  start: number;
+  end: number;
+  url: string; // Sprite sheet image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Parses HH:MM:SS.mmm or MM:SS.mmm into seconds
+const parseVttTime = (value: string) => {
+  return value.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0)
+}
+
+// Parses a WebVTT thumbnail index whose cue payloads are `sheet.jpg#xywh=x,y,w,h`.
+// Sheet urls are resolved against the index url
+export function parseThumbnailVtt(text: string, baseUrl: string): ThumbnailCue[] {
+  const cues: ThumbnailCue[] = []
+  for (const block of text.replace(/\r/g, '').split('\n\n')) {
+    const lines = block.trim().split('\n')
+    const timingIndex = lines.findIndex(line => line.includes('-->'))
+    const payload = lines[timingIndex + 1]
+    if (timingIndex === -1 || !payload) continue
+
+    const [start, end] = lines[timingIndex].split('-->').map(part => parseVttTime(part.trim().split(' ')[0]))
+    const [file, fragment] = payload.trim().split('#xywh=')
+    const [x, y, width, height] = (fragment || '').split(',').map(Number)
+    if ([x, y, width, height].some(isNaN)) continue
+
+    cues.push({ start, end, url: new URL(file, baseUrl).href, x, y, width, height })
+  }
+  return cues
+}
+
+// Waits for the sprite sheets to be generated (if they are still running) and loads their index
+export async function loadThumbnails(thumbnails: ThumbnailsInfo): Promise<ThumbnailCue[]> {
+  const res = await fetchGeneratedAsset(thumbnails)
+  return parseThumbnailVtt(await res.text(), thumbnails.url)
+}
+
+// Cues are sorted by time, so a binary search finds the tile for a time
+export function findThumbnailCue(cues: ThumbnailCue[], time: number): ThumbnailCue | null {
+  let low = 0
+  let high = cues.length - 1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (time < cues[mid].start) high = mid - 1
+    else if (time >= cues[mid].end) low = mid + 1
+    else return cues[mid]
+  }
+  return cues.length && time >= cues[cues.length - 1].end ? cues[cues.length - 1] : null
+}
@@ -0,0 +1,73 @@
+// Rates measured frame durations are rounded to, since presentation times jitter by a few milliseconds
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 47.952, 48, 50, 59.94, 60, 119.88, 120]
+
+// 29.97 and 59.94 fps count in drop-frame timecode, which skips frame numbers to stay in step with the clock
+export const isDropFrame = (fps: number) => {
+  const nominal = Math.round(fps)
+  return (nominal === 30 || nominal === 60) && Math.abs(fps - (nominal * 1000) / 1001) < 0.01
+}
+
+// Index of the frame on screen at a time. The small offset keeps a time sitting exactly on a frame
+// boundary from landing on the previous frame through floating point error
+export const frameAt = (seconds: number, fps: number) => Math.max(0, Math.floor(seconds * fps + 1e-3))
+
+// Time to seek to for a frame: its middle, so rounding in the browser can't show a neighbour
+export const frameTime = (frame: number, fps: number) => (Math.max(0, frame) + 0.5) / fps
+
+export const snapFrameRate = (fps: number) => {
+  const common = COMMON_FRAME_RATES.find(rate => Math.abs(rate - fps) / rate < 0.01)
+  return common ?? Math.round(fps * 1000) / 1000
+}
+
+// HH:MM:SS:FF, with a ; before the frames in drop-frame timecode
+export const formatSmpte = (seconds: number, fps: number) => {
+  const nominal = Math.round(fps)
+  let frame = frameAt(seconds, fps)
+
+  if (isDropFrame(fps)) {
+    // Frame numbers 0 and 1 (0-3 at 59.94) are skipped every minute except every tenth
+    const dropped = nominal === 60 ? 4 : 2
+    const perTenMinutes = Math.round(fps * 600)
+    const perMinute = nominal * 60 - dropped
+    const tens = Math.floor(frame / perTenMinutes)
+    const rest = frame % perTenMinutes
+    frame += dropped * 9 * tens + (rest > dropped ? dropped * Math.floor((rest - dropped) / perMinute) : 0)
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const totalSeconds = Math.floor(frame / nominal)
+  const h = Math.floor(totalSeconds / 3600)
+  const m = Math.floor(totalSeconds / 60) % 60
+  const s = totalSeconds % 60
+  return `${pad(h)}:${pad(m)}:${pad(s)}${isDropFrame(fps) ? ';' : ':'}${pad(frame % nominal)}`
+}
+
+// Reads a time typed into the go-to field: SMPTE timecode (HH:MM:SS:FF or HH:MM:SS;FF, needs the frame
+// rate), a frame number ("1234f", same), or clock time (H:MM:SS.mmm, M:SS, seconds). Returns seconds
+// or null when the input isn't a time
+export const parseTimecode = (input: string, fps: number | null): number | null => {
+  const value = input.trim()
+
+  const frameNumber = value.match(/^(\d+)\s*f$/i)
+  if (frameNumber) return fps ? Number(frameNumber[1]) / fps : null
+
+  const smpte = value.match(/^(\d+):(\d{1,2}):(\d{1,2})[:;](\d{1,2})$/)
+  if (smpte) {
+    if (!fps) return null
+    const [h, m, s, f] = smpte.slice(1).map(Number)
+    const nominal = Math.round(fps)
+    if (m >= 60 || s >= 60 || f >= nominal) return null
+    let frame = (h * 3600 + m * 60 + s) * nominal + f
+    if (isDropFrame(fps)) {
+      const minutes = h * 60 + m
+      frame -= (nominal === 60 ? 4 : 2) * (minutes - Math.floor(minutes / 10))
+    }
+    return frame / fps
+  }
+
+  const clock = value.match(/^(?:(?:(\d+):)?(\d{1,2}):)?(\d+(?:\.\d*)?)$/)
+  if (!clock) return null
+  const [h, m, s] = [Number(clock[1] ?? 0), Number(clock[2] ?? 0), Number(clock[3])]
+  if ((clock[2] !== undefined && s >= 60) || (clock[1] !== undefined && m >= 60)) return null
+  return h * 3600 + m * 60 + s
+}
@@ -0,0 +1,80 @@
+import { formatBytes } from './utils'
+
+// Machine-readable codes of the media server's upload, ingest and batch errors
+export type UploadErrorCode =
+  | 'NO_FILE'
+  | 'INVALID_UPLOAD'
+  | 'FILE_TOO_LARGE'
+  | 'TOO_MANY_FILES'
+  | 'FILE_NOT_PICKED'
+  | 'FILE_NOT_FOUND'
+  | 'NO_VIDEOS_FOUND'
+  | 'INVALID_URL'
+  | 'URL_UNREADABLE'
+  | 'NOT_MEDIA'
+  | 'CORRUPT_FILE'
+  | 'NO_VIDEO_STREAM'
+  | 'ZERO_DURATION'
+  | 'PROCESSING_FAILED'
+  | 'UPLOAD_NOT_FOUND'
+  | 'OFFSET_MISMATCH'
+  | 'UPLOAD_INCOMPLETE'
+  | 'CHECKSUM_MISMATCH'
+
+export interface UploadErrorDetails {
+  maxBytes?: number
+  maxFiles?: number
+  offset?: number // Bytes of a resumable upload the server has
+}
+
+// An error response of the form { error, code, details }. code is null when the server (or
+// whatever answered instead) sent something else
+export class UploadError extends Error {
+  code: UploadErrorCode | null
+  details: UploadErrorDetails
+
+  constructor(message: string, code: UploadErrorCode | null = null, details: UploadErrorDetails = {}) {
+    super(message)
+    this.name = 'UploadError'
+    this.code = code
+    this.details = details
+  }
+}
+
+// Turns a failed media server response into an UploadError
+export async function readUploadError(res: Response): Promise<UploadError> {
+  const data = await res.json().catch(() => null)
+  return new UploadError(data?.error || `Upload failed (${res.status})`, data?.code ?? null, data?.details)
+}
+
+const UPLOAD_ERROR_MESSAGES: Record<UploadErrorCode, (details: UploadErrorDetails) => string> = {
+  NO_FILE: () => 'No video was selected.',
+  INVALID_UPLOAD: () => 'The media server could not accept this upload.',
+  FILE_TOO_LARGE: ({ maxBytes }) =>
+    `This file is larger than the upload limit${maxBytes ? ` of ${formatBytes(maxBytes)}` : ''}. The desktop app plays large files straight from disk.`,
+  TOO_MANY_FILES: ({ maxFiles }) => `Too many videos at once${maxFiles ? `, open at most ${maxFiles}` : ''}.`,
+  FILE_NOT_PICKED: () => 'Pick the file again with Upload Video or drop it onto the window.',
+  FILE_NOT_FOUND: () => 'The file has been moved or deleted.',
+  NO_VIDEOS_FOUND: () => 'No videos were found in that folder.',
+  INVALID_URL: () => 'Enter a full http:// or https:// link.',
+  URL_UNREADABLE: () => 'The video at this link could not be read.',
+  NOT_MEDIA: () => "This file isn't a video.",
+  CORRUPT_FILE: () => 'This video is damaged or incomplete. Try downloading or exporting it again.',
+  NO_VIDEO_STREAM: () => 'This file has no video track. Audio-only files cannot be played.',
+  ZERO_DURATION: () => 'This video is empty.',
+  PROCESSING_FAILED: () => 'The media server could not prepare this video for playback.',
+  UPLOAD_NOT_FOUND: () => 'The upload expired on the media server. Start it again.',
+  OFFSET_MISMATCH: () => 'The upload got out of step with the media server. Try again to continue where it stopped.',
+  UPLOAD_INCOMPLETE: () => 'The upload stopped before the whole file arrived. Try again to continue where it stopped.',
+  CHECKSUM_MISMATCH: () => 'The file was corrupted on the way to the media server. Try uploading it again.',
+}
+
+// Message for the landing page: a helpful explanation for known codes, the server's own otherwise
+export function describeUploadError(err: unknown, fallback = 'Upload failed'): string {
+  if (err instanceof UploadError) {
+    return err.code && UPLOAD_ERROR_MESSAGES[err.code] ? UPLOAD_ERROR_MESSAGES[err.code](err.details) : err.message
+  }
+  // fetch rejects with a TypeError when nothing answers
+  if (err instanceof TypeError) return 'The media server is not reachable.'
+  return fallback
+}
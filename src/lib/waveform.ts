@@ -0,0 +1,38 @@
+import type { Waveform } from '../types/video'
+
+// Draws the envelope as bars mirrored around the middle, where the progress bar's track runs over it:
+// peaks faint, RMS stronger, and the part before `progress` (0-1) brighter to match the played part
+export function drawWaveform(canvas: HTMLCanvasElement, waveform: Waveform, progress: number) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+
+  // Match the backing store to the displayed size so bars stay crisp on HiDPI screens
+  const ratio = window.devicePixelRatio || 1
+  const width = Math.round(canvas.clientWidth * ratio)
+  const height = Math.round(canvas.clientHeight * ratio)
+  if (canvas.width !== width) canvas.width = width
+  if (canvas.height !== height) canvas.height = height
+  ctx.clearRect(0, 0, width, height)
+
+  const buckets = waveform.peak.length
+  if (!buckets || !width) return
+  const playedX = progress * width
+
+  for (let x = 0; x < width; x++) {
+    // A column covers one or more buckets; use the loudest so short peaks stay visible
+    const from = Math.floor((x / width) * buckets)
+    const to = Math.max(from + 1, Math.floor(((x + 1) / width) * buckets))
+    let peak = 0
+    let rms = 0
+    for (let i = from; i < to && i < buckets; i++) {
+      peak = Math.max(peak, waveform.peak[i])
+      rms = Math.max(rms, waveform.rms[i])
+    }
+
+    const played = x < playedX
+    ctx.fillStyle = played ? 'rgba(255, 255, 255, 0.35)' : 'rgba(255, 255, 255, 0.15)'
+    ctx.fillRect(x, (height - peak * height) / 2, 1, peak * height)
+    ctx.fillStyle = played ? 'rgba(255, 255, 255, 0.6)' : 'rgba(255, 255, 255, 0.3)'
+    ctx.fillRect(x, (height - rms * height) / 2, 1, rms * height)
+  }
+}
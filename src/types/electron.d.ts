@@ -2,6 +2,8 @@ interface ElectronAPI {
   send: (channel: string, data?: any) => void;
   receive: (channel: string, func: (...args: any[]) => void) => void;
   invoke: (channel: string, data?: any) => Promise<any>;
+  getPathForFile: (file: File) => string | null;
+  mediaServerToken: string | null;
 }
 
 declare global {
@@ -0,0 +1,16 @@
+// Result of the media server's startup probe for one H.264 encoder
+export interface EncoderStatus {
+  name: string; // ffmpeg encoder name, e.g. h264_nvenc
+  label: string;
+  listed: boolean | null; // null until probed
+  working: boolean | null;
+  error: string | null;
+}
+
+export interface EncoderDiagnostics {
+  probedAt: string | null;
+  probing: boolean;
+  override: string | null; // null = automatic selection
+  active: string | null; // Encoder ambient jobs try first
+  encoders: EncoderStatus[];
+}
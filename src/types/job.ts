@@ -0,0 +1,26 @@
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobPriority = 'high' | 'normal';
+
+export type JobEventType = 'progress' | 'encoder' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobRecord {
+  id: string;
+  type: 'ambient' | 'hls' | 'audio' | 'thumbnails' | 'loudness' | 'waveform' | 'scenes' | 'clip';
+  source: { id: string; name: string; cacheKey: string };
+  status: JobStatus;
+  progress: number;
+  ready: boolean;
+  videoUrl?: string;
+  ambientUrl?: string | null;
+  encoder: string | null;
+  encodersTried: string[];
+  error: string | null;
+  priority: JobPriority;
+  queuePosition: number | null; // 1-based while queued
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number | null;
+  etaMs: number | null;
+}
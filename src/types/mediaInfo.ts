@@ -0,0 +1,49 @@
+interface MediaStreamInfo {
+  index: number;
+  codec: string | null;
+  codecLongName: string | null;
+  profile: string | null;
+  bitRate: number | null;
+  language: string;
+  default: boolean;
+  tags: Record<string, string>;
+}
+
+export interface VideoStreamInfo extends MediaStreamInfo {
+  level: number | null;
+  width: number;
+  height: number;
+  displayAspectRatio: string | null;
+  frameRate: number | null;
+  pixelFormat: string | null;
+  bitDepth: number | null;
+  color: {
+    range: string | null;
+    space: string | null;
+    transfer: string | null;
+    primaries: string | null;
+  };
+  hdr: string | null;
+}
+
+export interface AudioStreamInfo extends MediaStreamInfo {
+  channels: number;
+  channelLayout: string | null;
+  sampleRate: number | null;
+}
+
+// Response of the media server's /media-info/:source endpoint
+export interface MediaInfo {
+  name: string;
+  size: number | null;
+  container: string | null;
+  duration: number | null;
+  bitRate: number | null;
+  playback: 'direct' | 'remux' | 'transcode';
+  tags: Record<string, string>;
+  chapters: number;
+  video: VideoStreamInfo[];
+  audio: AudioStreamInfo[];
+  subtitles: MediaStreamInfo[];
+  other: Array<MediaStreamInfo & { type: string }>;
+}
@@ -1,7 +1,62 @@
+// A file the media server generates in the background; jobId is set while it is still being generated
+export interface GeneratedAsset {
+  url: string;
+  jobId: string | null;
+}
+
+// Seek-preview sprite sheets, url points at the WebVTT thumbnail index
+export type ThumbnailsInfo = GeneratedAsset;
+
+// EBU R128 measurements of the first audio stream
+export interface Loudness {
+  integrated: number; // LUFS
+  range: number | null; // LU
+  truePeak: number | null; // dBTP
+}
+
+// Audio envelope of the first audio stream: one peak and RMS level (0-1) per bucketDuration seconds
+export interface Waveform {
+  duration: number;
+  bucketDuration: number;
+  peak: number[];
+  rms: number[];
+}
+
+// Named ambient rendition settings; blur and saturation are baked into the rendition
+export interface AmbientProfile {
+  id: string;
+  label: string;
+  description: string;
+  height: number;
+  fps: number | null;
+  blur: number;
+  saturation: number;
+  codec: 'h264' | 'vp9';
+}
+
+// Chapter from the container metadata, times in seconds
+export interface Chapter {
+  start: number;
+  end: number;
+  title: string;
+}
+
 export interface VideoSubmission {
   videoUrl: string;
   fileName: string;
   ambientUrl?: string;
-  audioTracks?: Array<{ index: number; language: string; codec: string; channels?: number }>;
-  subtitles?: Array<{ index: number; language: string; codec: string }>;
+  ambientProfile?: AmbientProfile | null; // Profile the ambient rendition is rendered with
+  audioTracks?: Array<{ index: number; language: string; codec: string; channels?: number; renditionUrl?: string | null }>;
+  subtitles?: Array<{ index: number; language: string; codec: string; url?: string | null }>;
+  chapters?: Chapter[];
+  frameRate?: number | null; // Frames per second of the video stream, when the media server knows it
+  thumbnails?: ThumbnailsInfo | null;
+  loudness?: GeneratedAsset | null; // url points at the Loudness JSON
+  waveform?: GeneratedAsset | null; // url points at the Waveform JSON
+  scenes?: GeneratedAsset | null; // url points at a JSON array of Chapter, detected when the file has none
+  mediaInfoUrl?: string | null; // Media server endpoint describing the file in detail
+  clipUrl?: string | null; // Media server endpoint exporting a time range of the file
+  frameUrl?: string | null; // Media server endpoint grabbing a full-resolution frame
+  ambientJobId?: string | null; // Ambient job still running when the video was queued
+  hlsJobId?: string | null; // HLS stream still starting when the video was queued; videoUrl plays once it is ready
 } 
\ No newline at end of file